@@ -0,0 +1,154 @@
+/**
+ * Generates src/generated/api.ts from the engine's OpenAPI spec.
+ *
+ * Usage: bun scripts/generate-api.ts [spec] [output]
+ *
+ * Refresh spec/openapi.json from a running engine's `/openapi.json` first,
+ * then regenerate and commit both files together.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+
+interface SchemaObject {
+  $ref?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  format?: string;
+  enum?: Array<string | number | boolean>;
+  nullable?: boolean;
+  description?: string;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  allOf?: SchemaObject[];
+}
+
+interface OperationObject {
+  operationId?: string;
+  summary?: string;
+}
+
+export interface OpenApiSpec {
+  info: { title: string; version: string };
+  paths: Record<string, Record<string, OperationObject>>;
+  components?: { schemas?: Record<string, SchemaObject> };
+}
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const HEADER = `// Generated by scripts/generate-api.ts from spec/openapi.json. Do not edit by hand;
+// refresh the spec and run \`bun run generate\` instead.
+/* eslint-disable */
+`;
+
+/**
+ * Render the TypeScript module for a spec
+ */
+export function generate(spec: OpenApiSpec): string {
+  const sections = [HEADER.trimEnd(), `// ${spec.info.title} ${spec.info.version}`];
+
+  for (const [name, schema] of Object.entries(spec.components?.schemas ?? {})) {
+    sections.push(renderDeclaration(name, schema));
+  }
+
+  const operations = Object.entries(spec.paths).flatMap(([path, item]) =>
+    METHODS.filter(method => item[method]).map(method => {
+      const operation = item[method] as OperationObject;
+      if (!operation.operationId) {
+        throw new Error(`${method.toUpperCase()} ${path} has no operationId`);
+      }
+      return { operationId: operation.operationId, method: method.toUpperCase(), path, summary: operation.summary };
+    })
+  );
+
+  sections.push([
+    '/** Path templates by operationId */',
+    'export const ROUTES = {',
+    ...operations.map(op => `${op.summary ? `  /** ${op.summary} */\n` : ''}  ${op.operationId}: '${op.path}',`),
+    '} as const;',
+  ].join('\n'));
+
+  sections.push([
+    'export type OperationId = keyof typeof ROUTES;',
+    '',
+    '/** Every operation the engine exposes */',
+    'export const OPERATIONS: ReadonlyArray<{ operationId: OperationId; method: string; path: string }> = [',
+    ...operations.map(op => `  { operationId: '${op.operationId}', method: '${op.method}', path: '${op.path}' },`),
+    '];',
+  ].join('\n'));
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function renderDeclaration(name: string, schema: SchemaObject): string {
+  const doc = schema.description ? `/** ${schema.description} */\n` : '';
+  if (schema.type === 'object' && schema.properties && !schema.nullable) {
+    return `${doc}export interface ${name} ${renderObject(schema, '')}`;
+  }
+  return `${doc}export type ${name} = ${renderType(schema, '')};`;
+}
+
+function renderType(schema: SchemaObject, indent: string): string {
+  const type = renderNonNullable(schema, indent);
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function renderNonNullable(schema: SchemaObject, indent: string): string {
+  if (schema.$ref) {
+    return schema.$ref.replace('#/components/schemas/', '');
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => (typeof value === 'string' ? `'${value}'` : String(value))).join(' | ');
+  }
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants) {
+    return variants.map(variant => renderType(variant, indent)).join(' | ');
+  }
+  if (schema.allOf) {
+    return schema.allOf.map(part => renderType(part, indent)).join(' & ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const items = renderType(schema.items ?? {}, indent);
+      return /[|&]/.test(items) ? `Array<${items}>` : `${items}[]`;
+    }
+    case 'object':
+      if (schema.properties) {
+        return renderObject(schema, indent);
+      }
+      if (typeof schema.additionalProperties === 'object') {
+        return `Record<string, ${renderType(schema.additionalProperties, indent)}>`;
+      }
+      return 'Record<string, any>';
+    default:
+      return 'unknown';
+  }
+}
+
+function renderObject(schema: SchemaObject, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([key, property]) => {
+    const doc = property.description ? `${inner}/** ${property.description} */\n` : '';
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+    return `${doc}${inner}${name}${required.has(key) ? '' : '?'}: ${renderType(property, inner)};`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+if (import.meta.main) {
+  const [specPath = 'spec/openapi.json', outputPath = 'src/generated/api.ts'] = process.argv.slice(2);
+  const spec = JSON.parse(readFileSync(specPath, 'utf8')) as OpenApiSpec;
+  writeFileSync(outputPath, generate(spec));
+  console.log(`Wrote ${outputPath}`);
+}
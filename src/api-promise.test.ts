@@ -0,0 +1,47 @@
+import { describe, it, expect } from "bun:test";
+import { ApiPromise } from "./api-promise";
+
+describe("ApiPromise", () => {
+  const response = { data: { id: "txn_123" }, status: 201, headers: { "x-request-id": "req_1" } };
+
+  it("should resolve to the response data", async () => {
+    const promise = ApiPromise.fromResponse(Promise.resolve(response));
+
+    expect(promise).toBeInstanceOf(Promise);
+    await expect(promise).resolves.toEqual({ id: "txn_123" });
+  });
+
+  it("should expose the status and headers via withResponse()", async () => {
+    const result = await ApiPromise.fromResponse(Promise.resolve(response)).withResponse();
+
+    expect(result).toEqual(response);
+  });
+
+  it("should keep the response metadata when mapping the data", async () => {
+    const promise = ApiPromise.fromResponse(Promise.resolve(response)).map(data => data.id.toUpperCase());
+
+    await expect(promise).resolves.toBe("TXN_123");
+    const result = await promise.withResponse();
+    expect(result.status).toBe(201);
+    expect(result.headers["x-request-id"]).toBe("req_1");
+  });
+
+  it("should reject with the request error", async () => {
+    const promise = ApiPromise.fromResponse(Promise.reject(new Error("boom")));
+
+    await expect(promise).rejects.toThrow("boom");
+    await expect(promise.withResponse()).rejects.toThrow("boom");
+  });
+
+  it("should wrap plain promises without response metadata", async () => {
+    const result = await ApiPromise.from(Promise.resolve("pong")).withResponse();
+
+    expect(result).toEqual({ data: "pong", status: 0, headers: {} });
+  });
+
+  it("should return derived promises as plain promises", () => {
+    const derived = ApiPromise.fromResponse(Promise.resolve(response)).then(data => data.id);
+
+    expect(derived).not.toBeInstanceOf(ApiPromise);
+  });
+});
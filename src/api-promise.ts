@@ -0,0 +1,58 @@
+import type { ApiResponse } from './http';
+
+/**
+ * A promise for the result of an API call that also gives access to the
+ * raw HTTP response, e.g. to read request IDs, rate limit headers or ETags.
+ * @example
+ * const { data: tx, headers } = await client.transactions.create(payload).withResponse();
+ * console.log(headers['x-request-id']);
+ */
+export class ApiPromise<T> extends Promise<T> {
+  private responsePromise!: Promise<ApiResponse<T>>;
+
+  // Derived promises (then/catch/finally) are plain promises
+  static override get [Symbol.species]() {
+    return Promise;
+  }
+
+  /**
+   * Create an ApiPromise that resolves to the data of a response
+   */
+  static fromResponse<T>(responsePromise: Promise<ApiResponse<T>>): ApiPromise<T> {
+    // `this` lets subclasses create instances of their own type
+    const promise = new this<T>((resolve, reject) => {
+      responsePromise.then(response => resolve(response.data), reject);
+    });
+    promise.responsePromise = responsePromise;
+    return promise;
+  }
+
+  /**
+   * Wrap any promise-like value. Values that don't come from the HttpClient
+   * have no response metadata: their status is 0 and their headers are empty.
+   */
+  static from<T>(promise: PromiseLike<T>): ApiPromise<T> {
+    if (promise instanceof ApiPromise) {
+      return promise;
+    }
+    return ApiPromise.fromResponse(Promise.resolve(promise).then(data => ({ data, status: 0, headers: {} })));
+  }
+
+  /**
+   * Resolve to the data together with the HTTP status and headers
+   */
+  withResponse(): Promise<ApiResponse<T>> {
+    // Failures surface through the returned promise
+    this.then(undefined, () => undefined);
+    return this.responsePromise;
+  }
+
+  /**
+   * Transform the data while keeping the response metadata
+   */
+  map<U>(transform: (data: T) => U): ApiPromise<U> {
+    return ApiPromise.fromResponse(
+      this.withResponse().then(response => ({ ...response, data: transform(response.data) }))
+    );
+  }
+}
@@ -1,4 +1,5 @@
-import { Action as ActionInterface, Currency } from '../types';
+import { Action as ActionInterface, Amount, Currency } from '../types';
+import { Money } from '../money';
 
 export class Action implements ActionInterface {
   type: string;
@@ -11,8 +12,9 @@ export class Action implements ActionInterface {
 
   /**
    * Creates a payment action to release funds to a specific account.
+   * The currency defaults to that of a Money amount, or USD.
    */
-  static release(amount: number, currency: Currency = 'USD'): ActionBuilder {
+  static release(amount: Amount, currency: Currency = Money.isMoney(amount) ? amount.currency : 'USD'): ActionBuilder {
     return new ActionBuilder('release', { amount, currency });
   }
 
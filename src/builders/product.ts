@@ -1,4 +1,5 @@
-import { Currency, ProductDefinition } from '../types';
+import { Amount, Currency, ProductDefinition } from '../types';
+import { Money } from '../money';
 
 // Product is now just an alias for ProductBuilder since we don't need a separate build step
 export type Product = ProductBuilder;
@@ -8,7 +9,7 @@ export class ProductBuilder {
   private definition: ProductDefinition;
   
   // Additional properties for test compatibility
-  amount?: number;
+  amount?: Amount;
   chargeUnit?: string;
   toAccountId?: string;
   fromAccountId?: string;
@@ -30,9 +31,10 @@ export class ProductBuilder {
   }
 
   /**
-   * Defines a unit-based pricing model.
+   * Defines a unit-based pricing model. Use Money for sub-cent rates, e.g.
+   * `charge(Money.of('0.00002'), 'per_token')`.
    */
-  charge(rate: number, unit: string, currency: Currency = 'USD'): this {
+  charge(rate: Amount, unit: string, currency: Currency = Money.isMoney(rate) ? rate.currency : 'USD'): this {
     this.definition.pricing = { model: 'per_unit', rate, unit, currency };
     this.amount = rate;
     this.chargeUnit = unit;
@@ -42,7 +44,7 @@ export class ProductBuilder {
   /**
    * Defines a streaming pricing model.
    */
-  stream(rate: number, unit: 'per_second' | 'per_minute', currency: Currency = 'USD'): this {
+  stream(rate: Amount, unit: 'per_second' | 'per_minute', currency: Currency = Money.isMoney(rate) ? rate.currency : 'USD'): this {
     this.definition.pricing = { model: 'streaming', rate, unit, currency };
     return this;
   }
@@ -59,7 +61,7 @@ export class ProductBuilder {
   /**
    * Defines a stage in a multi-agent workflow.
    */
-  stage(name: string, config: { delegateTo: string; charge: number }): this {
+  stage(name: string, config: { delegateTo: string; charge: Amount }): this {
     const stageData = { name, ...config };
     this.definition.workflow.push(stageData);
     this.stages.push(stageData);
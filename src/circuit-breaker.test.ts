@@ -0,0 +1,82 @@
+import { describe, it, expect, mock } from "bun:test";
+import { CircuitBreaker } from "./circuit-breaker";
+import type { CircuitStateChangeEvent } from "./circuit-breaker";
+import { CircuitOpenError, NetworkError, NotFoundError, ServerError } from "./errors";
+
+const fail = (error: Error) => () => Promise.reject(error);
+const succeed = () => Promise.resolve("ok");
+
+async function trip(breaker: CircuitBreaker, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await breaker.run(fail(new ServerError())).catch(() => undefined);
+  }
+}
+
+describe("CircuitBreaker", () => {
+  it("should open after consecutive server and network errors", async () => {
+    const events: CircuitStateChangeEvent[] = [];
+    const breaker = new CircuitBreaker({
+      failureThreshold: 3,
+      probe: succeed,
+      onStateChange: event => events.push(event),
+    });
+
+    await trip(breaker, 2);
+    await breaker.run(fail(new NetworkError("Network error"))).catch(() => undefined);
+
+    expect(breaker.getState()).toBe("open");
+    expect(events).toEqual([
+      expect.objectContaining({ previous: "closed", state: "open", failures: 3, error: expect.any(NetworkError) }),
+    ]);
+  });
+
+  it("should fail fast while open", async () => {
+    const request = mock(succeed);
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 60000, probe: succeed });
+    await trip(breaker, 1);
+
+    const error = await breaker.run(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfter).toBe(60);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("should not count errors that show the API is reachable", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, probe: succeed });
+
+    await trip(breaker, 1);
+    await breaker.run(fail(new NotFoundError("Account"))).catch(() => undefined);
+    await trip(breaker, 1);
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should close after a successful probe", async () => {
+    const events: string[] = [];
+    const probe = mock(succeed);
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      resetTimeout: 5,
+      probe,
+      onStateChange: event => events.push(event.state),
+    });
+    await trip(breaker, 1);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const results = await Promise.all([breaker.run(succeed), breaker.run(succeed)]);
+
+    expect(results).toEqual(["ok", "ok"]);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(events).toEqual(["open", "half-open", "closed"]);
+  });
+
+  it("should reopen when the probe fails", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 5, probe: fail(new ServerError()) });
+    await trip(breaker, 1);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    await expect(breaker.run(succeed)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(breaker.getState()).toBe("open");
+  });
+});
@@ -0,0 +1,160 @@
+import { CircuitOpenError, NetworkError, QuicksilverError, RequestAbortedError, ServerError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive server or network errors that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open before the API is probed. Defaults to 30000. */
+  resetTimeout?: number;
+  /**
+   * Checks whether the API has recovered; the circuit closes when it resolves.
+   * Requests made by the probe must pass `circuitBreaker: false`.
+   * The client probes with `client.health()` by default.
+   */
+  probe?: () => PromiseLike<unknown>;
+  /** Called whenever the circuit changes state */
+  onStateChange?: (event: CircuitStateChangeEvent) => void;
+}
+
+/**
+ * Details passed to the onStateChange hook
+ */
+export interface CircuitStateChangeEvent {
+  previous: CircuitState;
+  state: CircuitState;
+  /** Consecutive failures seen so far */
+  failures: number;
+  /** The failure that opened the circuit */
+  error?: QuicksilverError;
+}
+
+/**
+ * Fails requests fast while the API keeps failing, instead of letting every
+ * caller wait for its own timeout. After `resetTimeout` the next request
+ * triggers a single probe; all requests wait for its outcome.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private readonly probe: () => PromiseLike<unknown>;
+  private readonly onStateChange: CircuitBreakerOptions['onStateChange'];
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing: Promise<boolean> | undefined;
+
+  constructor(options: CircuitBreakerOptions & { probe: () => PromiseLike<unknown> }) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    this.probe = options.probe;
+    this.onStateChange = options.onStateChange;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Run a request through the breaker
+   */
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    await this.check();
+
+    try {
+      const result = await request();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Throws CircuitOpenError unless the request may be sent
+   */
+  private async check(): Promise<void> {
+    if (this.state === 'closed') {
+      return;
+    }
+
+    if (this.state === 'open' && Date.now() - this.openedAt < this.resetTimeout) {
+      throw this.createOpenError();
+    }
+
+    this.probing ??= this.runProbe();
+    if (!(await this.probing)) {
+      throw this.createOpenError();
+    }
+  }
+
+  private async runProbe(): Promise<boolean> {
+    this.transition('half-open');
+    try {
+      await this.probe();
+      this.failures = 0;
+      this.transition('closed');
+      return true;
+    } catch (error) {
+      this.open(error instanceof QuicksilverError ? error : undefined);
+      return false;
+    } finally {
+      this.probing = undefined;
+    }
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+  }
+
+  private recordFailure(error: unknown): void {
+    if (error instanceof RequestAbortedError) {
+      return;
+    }
+    if (!isOutageError(error)) {
+      // The API answered, so it is reachable
+      this.failures = 0;
+      return;
+    }
+
+    this.failures++;
+    if (this.state === 'closed' && this.failures >= this.failureThreshold) {
+      this.open(error);
+    }
+  }
+
+  private open(error?: QuicksilverError): void {
+    this.openedAt = Date.now();
+    this.transition('open', error);
+  }
+
+  private transition(state: CircuitState, error?: QuicksilverError): void {
+    const previous = this.state;
+    if (previous === state) {
+      return;
+    }
+
+    this.state = state;
+    const event: CircuitStateChangeEvent = { previous, state, failures: this.failures };
+    if (error) {
+      event.error = error;
+    }
+    this.onStateChange?.(event);
+  }
+
+  private createOpenError(): CircuitOpenError {
+    const remaining = Math.max(0, this.openedAt + this.resetTimeout - Date.now());
+    return new CircuitOpenError(Math.ceil(remaining / 1000));
+  }
+}
+
+/**
+ * Errors that indicate the API is down, as opposed to rejecting the request
+ */
+function isOutageError(error: unknown): error is QuicksilverError {
+  if (error instanceof NetworkError || error instanceof ServerError) {
+    return true;
+  }
+  return error instanceof QuicksilverError && (error.statusCode ?? 0) >= 500;
+}
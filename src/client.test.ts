@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from "bun:test";
+import { describe, it, expect, beforeEach, mock } from "bun:test";
 import { QuicksilverClient } from "./client";
+import { CircuitOpenError, RequestAbortedError } from "./errors";
 
 describe("QuicksilverClient", () => {
   let client: QuicksilverClient;
@@ -31,6 +32,100 @@ describe("QuicksilverClient", () => {
     expect(sandboxClient.getBaseURL()).toBe("http://localhost:3000");
   });
 
+  it("should use one transport for REST and real-time subscriptions", async () => {
+    const fetch = mock((url: string) =>
+      Promise.resolve(url.includes("/sse/")
+        ? new Response("", { headers: { "content-type": "text/event-stream" } })
+        : new Response(JSON.stringify({ pong: true }), { headers: { "content-type": "application/json" } }))
+    );
+    const transportClient = new QuicksilverClient("test-api-key", { transport: { fetch } });
+
+    await transportClient.ping();
+    transportClient.streams.subscribe("stream_1").close();
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    const [url, init] = fetch.mock.calls[1] as unknown as [string, RequestInit];
+    expect(url).toBe("https://api.quicksilver.com/sse/streams/stream_1");
+    expect((init.headers as Record<string, string>)["Authorization"]).toBe("Bearer test-api-key");
+  });
+
+  it("should count received SSE events", async () => {
+    const body = 'event: stream_event\ndata: {"stream_id":"stream_1"}\n\nevent: stream_event\ndata: not json\n\n';
+    const fetch = mock(() => Promise.resolve(new Response(body, { headers: { "content-type": "text/event-stream" } })));
+    const incrementCounter = mock(() => {});
+    const instrumentedClient = new QuicksilverClient("test-api-key", {
+      transport: { fetch },
+      instrumentation: { startSpan: mock(), recordHistogram: mock(), incrementCounter },
+    });
+
+    const connection = instrumentedClient.streams.subscribe("stream_1");
+    await new Promise(resolve => connection.once("error", resolve));
+    connection.close();
+
+    expect(incrementCounter).toHaveBeenCalledWith("quicksilver.client.sse.events", 1, { event: "stream_event" });
+    expect(incrementCounter).toHaveBeenCalledWith("quicksilver.client.sse.events", 1, {
+      event: "stream_event",
+      "error.type": "SyntaxError",
+    });
+  });
+
+  it("should expose the raw response of resource calls", async () => {
+    const fetch = mock(() =>
+      Promise.resolve(
+        new Response(JSON.stringify({ id: "txn_123", state: "Draft" }), {
+          status: 201,
+          headers: { "content-type": "application/json", "x-request-id": "req_abc" },
+        })
+      )
+    );
+    const transportClient = new QuicksilverClient("test-api-key", { transport: { fetch } });
+
+    const { data, status, headers } = await transportClient.transactions
+      .create({ amount: 100, currency: "USD", transaction_type: "Payment", from: "acc_1" })
+      .withResponse();
+
+    expect(data.id).toBe("txn_123");
+    expect(status).toBe(201);
+    expect(headers["x-request-id"]).toBe("req_abc");
+  });
+
+  it("should pass request options through resource methods", async () => {
+    const fetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+    const transportClient = new QuicksilverClient("test-api-key", { transport: { fetch } });
+
+    await expect(
+      transportClient.accounts.retrieve("acc_123", { signal: AbortSignal.abort() })
+    ).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("should probe recovery with health() once the circuit breaker opens", async () => {
+    let healthy = false;
+    const fetch = mock((url: string) => {
+      if (url.endsWith("/health")) {
+        healthy = true;
+        return Promise.resolve(Response.json({ status: "healthy", version: "1.0.0", timestamp: "2025-01-01T00:00:00Z" }));
+      }
+      return Promise.resolve(healthy ? new Response(null, { status: 204 }) : new Response(null, { status: 503 }));
+    });
+    const states: string[] = [];
+    const breakerClient = new QuicksilverClient("test-api-key", {
+      transport: { fetch },
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 5, onStateChange: event => states.push(event.state) },
+    });
+
+    await expect(breakerClient.accounts.delete("acc_1")).rejects.toThrow();
+    await expect(breakerClient.accounts.delete("acc_1")).rejects.toThrow();
+    await expect(breakerClient.accounts.delete("acc_1")).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await breakerClient.accounts.delete("acc_1");
+
+    expect(states).toEqual(["open", "half-open", "closed"]);
+    expect(fetch.mock.calls.map(([url]) => url)).toContain("https://api.quicksilver.com/health");
+  });
+
   // TODO: Add API key validation  
   // it("should throw error for empty API key", () => {
   //   expect(() => new QuicksilverClient("")).toThrow("Quicksilver API key is required.");
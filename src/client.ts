@@ -1,4 +1,12 @@
-import { HttpClient } from './http';
+import { HttpClient, withRequestConfig } from './http';
+import { ApiPromise } from './api-promise';
+import { ROUTES } from './routes';
+import type { RequestConfig, RetryOptions, RateLimitEvent, Middleware, TraceContext } from './http';
+import type { Transport } from './transport';
+import type { RateLimiterOptions } from './rate-limiter';
+import type { CircuitBreakerOptions } from './circuit-breaker';
+import type { Logger, LogLevel } from './logger';
+import type { Instrumentation } from './instrumentation';
 import { AccountsResource } from './resources/accounts';
 import { TransactionsResource } from './resources/transactions';
 import { StreamsResource } from './resources/streams';
@@ -17,6 +25,44 @@ export interface ClientOptions {
   baseURL?: string;
   /** Request timeout in milliseconds. Defaults to 30000 (30 seconds). */
   timeout?: number;
+  /** Automatically retry transient failures (429, 5xx, network errors) with exponential backoff. */
+  retry?: RetryOptions;
+  /** Called whenever the API responds with 429, e.g. to slow down a global scheduler. */
+  onRateLimit?: (event: RateLimitEvent) => void;
+  /** Request/response middleware, run in order around every API call. */
+  middleware?: Middleware[];
+  /** Custom fetch implementation, e.g. a keep-alive agent or a test fake. Also used for real-time subscriptions. */
+  transport?: Transport;
+  /** Provides the active W3C trace context, propagated as traceparent/tracestate headers. */
+  traceContext?: () => TraceContext | undefined;
+  /** Client-side rate limits and concurrency caps, per client and per route group. Excess calls are queued. */
+  rateLimiter?: RateLimiterOptions;
+  /** Fail fast with CircuitOpenError while the API is degraded, probing recovery with `health()`. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * A pino- or console-compatible logger for requests, retries and real-time connections.
+   * Authorization headers, API keys and KYC PII are redacted.
+   */
+  logger?: Logger;
+  /** Minimum level to log. Defaults to 'info'; use 'debug' to log every request. */
+  logLevel?: LogLevel;
+  /** Tracing and metrics adapter, e.g. an OpenTelemetry bridge. No-op by default. */
+  instrumentation?: Instrumentation;
+  /**
+   * Validate every response and real-time event against the SDK's schemas.
+   * Mismatches raise ResponseValidationError, so that contract drift surfaces immediately.
+   */
+  strict?: boolean;
+  /**
+   * How to return amounts such as `Transaction.amount`: as JS numbers (the default), or
+   * as exact Money values in the currency of the enclosing object.
+   */
+  amounts?: 'number' | 'money';
+  /**
+   * Reconnect real-time subscriptions that receive nothing, not even a heartbeat,
+   * for this many milliseconds. Set it above the server's heartbeat interval.
+   */
+  streamIdleTimeout?: number;
 }
 
 export class QuicksilverClient {
@@ -37,17 +83,47 @@ export class QuicksilverClient {
       ? 'http://localhost:3000'
       : 'https://api.quicksilver.com'); // This should match your actual API host
 
-    this.httpClient = new HttpClient(apiKey, this.baseURL, options.timeout);
+    this.httpClient = new HttpClient(apiKey, this.baseURL, options.timeout, {
+      ...(options.retry && { retry: options.retry }),
+      ...(options.onRateLimit && { onRateLimit: options.onRateLimit }),
+      ...(options.middleware && { middleware: options.middleware }),
+      ...(options.transport && { transport: options.transport }),
+      ...(options.traceContext && { traceContext: options.traceContext }),
+      ...(options.rateLimiter && { rateLimiter: options.rateLimiter }),
+      ...(options.logger && { logger: options.logger }),
+      ...(options.logLevel && { logLevel: options.logLevel }),
+      ...(options.instrumentation && { instrumentation: options.instrumentation }),
+      ...(options.strict && { strict: options.strict }),
+      ...(options.amounts && { amounts: options.amounts }),
+      ...(options.streamIdleTimeout && { streamIdleTimeout: options.streamIdleTimeout }),
+      ...(options.circuitBreaker && {
+        circuitBreaker: { probe: () => this.health({ circuitBreaker: false }), ...options.circuitBreaker },
+      }),
+    });
 
     // Initialize resource controllers
     this.accounts = new AccountsResource(this.httpClient);
     this.transactions = new TransactionsResource(this.httpClient);
-    this.streams = new StreamsResource(this.httpClient, this.baseURL, this.apiKey);
+    this.streams = new StreamsResource(this.httpClient);
     this.admin = new AdminResource(this.httpClient);
     this.gateways = new GatewaysResource(this.httpClient);
     this.kyc = new KycResource(this.httpClient);
   }
 
+  /**
+   * Registers a request/response middleware.
+   * @example
+   * client.use(async (request, next) => {
+   *   const response = await next({ ...request, headers: { ...request.headers, 'X-Trace': traceId } });
+   *   audit(request, response.status);
+   *   return response;
+   * });
+   */
+  use(middleware: Middleware): this {
+    this.httpClient.use(middleware);
+    return this;
+  }
+
   /**
    * Creates a new Condition builder.
    * This is the entry point for creating all conditional logic.
@@ -116,22 +192,22 @@ export class QuicksilverClient {
   /**
    * Test the API connection
    */
-  async ping(): Promise<{ pong: boolean; timestamp: string }> {
-    return this.httpClient.get<{ pong: boolean; timestamp: string }>('/ping');
+  ping(config?: RequestConfig): ApiPromise<{ pong: boolean; timestamp: string }> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<{ pong: boolean; timestamp: string }>(ROUTES.ping));
   }
 
   /**
    * Get API health status
    */
-  async health(): Promise<{ status: string; version: string; timestamp: string }> {
-    return this.httpClient.get<{ status: string; version: string; timestamp: string }>('/health');
+  health(config?: RequestConfig): ApiPromise<{ status: string; version: string; timestamp: string }> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<{ status: string; version: string; timestamp: string }>(ROUTES.getHealth));
   }
 
   /**
    * Get the OpenAPI specification for the API
    */
-  async getOpenApiSpec(): Promise<any> {
-    return this.httpClient.get<any>('/openapi.json');
+  getOpenApiSpec(config?: RequestConfig): ApiPromise<any> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<any>(ROUTES.getOpenApiSpec));
   }
 }
 
@@ -1,4 +1,6 @@
-import type { APIError } from './types';
+import type { APIError, FieldError, RateLimitInfo } from './types';
+import { formatIssues } from './validation';
+import type { ValidationIssue } from './validation';
 
 /**
  * Base error class for all Quicksilver SDK errors
@@ -6,6 +8,10 @@ import type { APIError } from './types';
 export class QuicksilverError extends Error {
   public readonly statusCode?: number;
   public readonly details?: Record<string, any>;
+  /** Server-assigned request ID (X-Request-Id), when the API responded */
+  public requestId?: string;
+  /** Client-generated ID sent as X-Correlation-Id */
+  public correlationId?: string;
 
   constructor(message: string, statusCode?: number, details?: Record<string, any>) {
     super(message);
@@ -32,6 +38,62 @@ export class APIErrorResponse extends QuicksilverError {
   }
 }
 
+/**
+ * Error thrown when the API key is valid but not allowed to perform the operation (403)
+ */
+export class PermissionDeniedError extends APIErrorResponse {
+  constructor(apiError: APIError) {
+    super(apiError);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Error thrown when the request conflicts with the current state of a resource (409),
+ * e.g. an invalid transaction state transition
+ */
+export class ConflictError extends APIErrorResponse {
+  constructor(apiError: APIError) {
+    super(apiError);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Error thrown when the request is well-formed but fails validation (422)
+ */
+export class UnprocessableEntityError extends APIErrorResponse {
+  /** Field-level validation failures reported by the server */
+  public readonly fieldErrors: FieldError[];
+
+  constructor(apiError: APIError) {
+    super(apiError);
+    this.name = 'UnprocessableEntityError';
+    this.fieldErrors = parseFieldErrors(apiError.details);
+  }
+}
+
+/**
+ * Error thrown when the source account can't cover the amount of a transaction
+ */
+export class InsufficientFundsError extends APIErrorResponse {
+  constructor(apiError: APIError) {
+    super(apiError);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * Error thrown when a transaction would exceed an account's daily,
+ * per-transaction or total limit
+ */
+export class LimitExceededError extends APIErrorResponse {
+  constructor(apiError: APIError) {
+    super(apiError);
+    this.name = 'LimitExceededError';
+  }
+}
+
 /**
  * Error thrown when there's a network connectivity issue
  */
@@ -51,6 +113,25 @@ export class NetworkError extends QuicksilverError {
   }
 }
 
+/**
+ * Error thrown when the caller aborts a request through its AbortSignal.
+ * Timeouts are reported as NetworkError instead.
+ */
+export class RequestAbortedError extends QuicksilverError {
+  constructor(reason?: unknown) {
+    super('Request aborted');
+    this.name = 'RequestAbortedError';
+    if (reason !== undefined) {
+      Object.defineProperty(this, 'cause', {
+        value: reason,
+        writable: false,
+        enumerable: false,
+        configurable: true
+      });
+    }
+  }
+}
+
 /**
  * Error thrown when the API key is invalid or missing
  */
@@ -88,10 +169,21 @@ export class ValidationError extends QuicksilverError {
  * Error thrown when the rate limit is exceeded
  */
 export class RateLimitError extends QuicksilverError {
-  constructor(message: string = 'Rate limit exceeded', retryAfter?: number) {
+  /** Seconds to wait before retrying, from the Retry-After header */
+  public readonly retryAfter?: number;
+  /** Rate limit quota reported by the server */
+  public readonly rateLimit?: RateLimitInfo;
+
+  constructor(message: string = 'Rate limit exceeded', retryAfter?: number, rateLimit?: RateLimitInfo) {
     const details = retryAfter !== undefined ? { retryAfter } : undefined;
     super(message, 429, details);
     this.name = 'RateLimitError';
+    if (retryAfter !== undefined) {
+      this.retryAfter = retryAfter;
+    }
+    if (rateLimit !== undefined) {
+      this.rateLimit = rateLimit;
+    }
   }
 }
 
@@ -103,4 +195,85 @@ export class ServerError extends QuicksilverError {
     super(message, 500);
     this.name = 'ServerError';
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Error thrown without contacting the API while the circuit breaker is open
+ */
+export class CircuitOpenError extends QuicksilverError {
+  /** Seconds until the API is probed again */
+  public readonly retryAfter: number;
+
+  constructor(retryAfter: number, message: string = 'Circuit breaker is open: the API is unavailable') {
+    super(message, undefined, { retryAfter });
+    this.name = 'CircuitOpenError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Error thrown in strict mode when a response doesn't match the SDK's types,
+ * e.g. because the engine's API changed
+ */
+export class ResponseValidationError extends QuicksilverError {
+  /** Every mismatch, by path */
+  public readonly issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    super(`Response of ${source} does not match the expected schema:\n${formatIssues(issues)}`);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown when Money amounts in different currencies are combined
+ */
+export class CurrencyMismatchError extends QuicksilverError {
+  public readonly expected: string;
+  public readonly received: string;
+
+  constructor(expected: string, received: string) {
+    super(`Cannot combine ${received} with ${expected}`);
+    this.name = 'CurrencyMismatchError';
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+/**
+ * Error thrown by an event iterator when events arrive faster than they are
+ * consumed and its buffer is full
+ */
+export class EventBufferOverflowError extends QuicksilverError {
+  public readonly bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(`Event buffer overflowed after ${bufferSize} unconsumed events`);
+    this.name = 'EventBufferOverflowError';
+    this.bufferSize = bufferSize;
+  }
+}
+
+/**
+ * Normalize the field errors in an API error's details. The engine reports
+ * them either as a list (`errors: [{ field, message }]`) or as a map
+ * (`fields: { amount: 'must be positive' }`).
+ */
+function parseFieldErrors(details?: Record<string, any>): FieldError[] {
+  const errors = details?.['errors'];
+  if (Array.isArray(errors)) {
+    return errors
+      .filter(error => typeof error?.field === 'string')
+      .map(error => ({ field: error.field, message: String(error.message ?? ''), ...(error.code && { code: error.code }) }));
+  }
+
+  const fields = details?.['fields'];
+  if (fields && typeof fields === 'object') {
+    return Object.entries(fields).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map(message => ({ field, message: String(message) }))
+    );
+  }
+
+  return [];
+}
@@ -0,0 +1,406 @@
+// Generated by scripts/generate-api.ts from spec/openapi.json. Do not edit by hand;
+// refresh the spec and run `bun run generate` instead.
+/* eslint-disable */
+
+// Quicksilver Engine API 1.0.0
+
+export type AccountType = 'Human' | 'AgentMain' | 'AgentDelegated';
+
+export type TransactionType = 'Payment' | 'Escrow' | 'Stream' | 'Scheduled' | 'Fund' | 'Refund';
+
+export type TransactionState = 'Draft' | 'Pending' | 'Executing' | 'Completed' | 'Failed' | 'Cancelled';
+
+export type StreamRateUnit = 'PerSecond' | 'PerMinute' | 'PerHour' | 'PerWord' | 'PerToken' | {
+  Custom: string;
+};
+
+export type Currency = 'USD' | 'USDC' | 'EUR' | {
+  Custom: string;
+};
+
+export interface Account {
+  id: string;
+  name: string;
+  account_type: AccountType;
+  parent_id?: string | null;
+  public_key?: string | null;
+  meta: Record<string, any>;
+  limits: {
+    daily?: number | null;
+    per_transaction?: number | null;
+    total?: number | null;
+  };
+  verification: {
+    status: 'unverified' | 'pending' | 'verified' | 'rejected';
+    verified_at?: string | null;
+    kyc_data?: {
+      document_type?: string;
+      document_number?: string;
+      verified_by?: string;
+    } | null;
+  };
+  created_at: string;
+  updated_at: string;
+  children: string[];
+}
+
+export interface Transaction {
+  id: string;
+  transaction_type: TransactionType;
+  amount: number;
+  currency: Currency;
+  from: string;
+  to?: string | null;
+  parent_id?: string | null;
+  children: string[];
+  state: TransactionState;
+  conditions?: Record<string, any>[] | null;
+  meta: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+  executed_at?: string | null;
+}
+
+export interface StreamingTransaction {
+  base: Transaction;
+  rate: number;
+  rate_unit: StreamRateUnit;
+  start_time: string;
+  end_time?: string | null;
+  accumulated: number;
+  last_batch: string;
+}
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  has_more: boolean;
+  /** Opaque cursor for the next page, when the endpoint supports cursor pagination */
+  next_cursor?: string;
+}
+
+export interface AccountList {
+  data: Account[];
+  pagination: Pagination;
+}
+
+export interface TransactionList {
+  data: Transaction[];
+  pagination: Pagination;
+}
+
+export interface StreamingTransactionList {
+  data: StreamingTransaction[];
+  pagination: Pagination;
+}
+
+export interface CreateAccountPayload {
+  name: string;
+  account_type: AccountType;
+  parent_id?: string;
+  public_key?: string;
+  meta?: Record<string, any>;
+  limits?: {
+    daily?: number;
+    per_transaction?: number;
+    total?: number;
+  };
+  verification?: {
+    status?: 'unverified' | 'pending' | 'verified' | 'rejected';
+    verified_at?: string;
+    kyc_data?: {
+      document_type?: string;
+      document_number?: string;
+      verified_by?: string;
+    };
+  };
+}
+
+export interface CreateTransactionPayload {
+  amount: number;
+  currency: Currency;
+  transaction_type: TransactionType;
+  from: string;
+  to?: string;
+  parent_id?: string;
+  meta?: Record<string, any>;
+  conditions?: Record<string, any>[];
+}
+
+export interface CreateStreamingTransactionPayload {
+  rate: number;
+  rate_unit: StreamRateUnit;
+  start_time?: string;
+  end_time?: string;
+}
+
+export interface StatusResponse {
+  status: 'paused' | 'resumed' | 'stopped';
+  stream_id: string;
+  timestamp: string;
+}
+
+export interface Balance {
+  amount: number;
+  currency: string;
+}
+
+export interface SSEStreamEvent {
+  stream_id: string;
+  event_type: 'streamstarted' | 'paused' | 'resumed' | 'stopped' | 'completed';
+  timestamp: string;
+}
+
+export interface SSEBatchCreatedEvent {
+  stream_id: string;
+  batch_transaction_id: string;
+  amount: number;
+  timestamp: string;
+}
+
+export interface APIError {
+  error: string;
+  message: string;
+  status_code: number;
+  details?: Record<string, any>;
+}
+
+export interface HealthStatus {
+  status: 'healthy' | 'unhealthy';
+  timestamp: string;
+  version?: string;
+  services?: {
+    database: 'connected' | 'disconnected';
+    redis?: 'connected' | 'disconnected';
+  };
+}
+
+export interface PingResponse {
+  message: string;
+  timestamp: string;
+}
+
+export interface SystemStats {
+  total_accounts: number;
+  total_transactions: number;
+  active_streams: number;
+}
+
+export interface GatewayInfo {
+  name: string;
+  type: string;
+  enabled: boolean;
+  supported_currencies?: string[];
+}
+
+export interface GatewayList {
+  gateways: GatewayInfo[];
+  count: number;
+}
+
+export interface GatewayTransaction {
+  id: string;
+  gateway: string;
+  status: 'pending' | 'completed' | 'failed';
+  amount: number;
+  currency: string;
+  external_id?: string;
+  error?: string;
+  created_at: string;
+  completed_at?: string;
+}
+
+export interface KycInitiatePayload {
+  account_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  date_of_birth?: string;
+  address?: {
+    street: string;
+    city: string;
+    state?: string;
+    postal_code: string;
+    country: string;
+  };
+}
+
+export interface KycInitiateResponse {
+  success: boolean;
+  verification_url?: string;
+  session_id?: string;
+  message?: string;
+}
+
+export interface KycStatus {
+  account_id: string;
+  status: 'pending' | 'in_review' | 'verified' | 'rejected';
+  verified_at?: string;
+  rejection_reason?: string;
+  kyc_provider?: string;
+  kyc_data?: Record<string, any>;
+}
+
+/** Path templates by operationId */
+export const ROUTES = {
+  /** List accounts */
+  listAccounts: '/accounts',
+  /** Create an account */
+  createAccount: '/accounts',
+  /** Retrieve an account */
+  retrieveAccount: '/accounts/{id}',
+  /** Replace an account's details */
+  updateAccount: '/accounts/{id}',
+  /** Update some of an account's details */
+  patchAccount: '/accounts/{id}',
+  /** Delete an account */
+  deleteAccount: '/accounts/{id}',
+  /** List delegated child accounts */
+  listChildAccounts: '/accounts/{id}/children',
+  /** List an account's transactions */
+  listAccountTransactions: '/accounts/{id}/transactions',
+  /** List an account's streams */
+  listAccountStreams: '/accounts/{id}/streams',
+  /** Get an account's balance */
+  getAccountBalance: '/accounts/{id}/balance',
+  /** Purchase a programmable product */
+  purchaseProduct: '/accounts/{id}/purchase',
+  /** Upload an identity document */
+  submitKycDocument: '/accounts/{id}/kyc',
+  /** Mark an account as verified */
+  verifyAccount: '/accounts/{id}/verify',
+  /** Reject an account's verification */
+  rejectAccountVerification: '/accounts/{id}/reject-verification',
+  /** List transactions */
+  listTransactions: '/transactions',
+  /** Create a transaction */
+  createTransaction: '/transactions',
+  /** Retrieve a transaction */
+  retrieveTransaction: '/transactions/{id}',
+  /** Replace a transaction's details */
+  updateTransaction: '/transactions/{id}',
+  /** Update some of a transaction's details */
+  patchTransaction: '/transactions/{id}',
+  /** Delete a transaction */
+  deleteTransaction: '/transactions/{id}',
+  /** List child transactions */
+  listChildTransactions: '/transactions/{id}/children',
+  /** Execute a transaction */
+  executeTransaction: '/transactions/{id}/execute',
+  /** Cancel a transaction */
+  cancelTransaction: '/transactions/{id}/cancel',
+  /** Trigger a condition event */
+  triggerTransactionEvent: '/transactions/{id}/trigger',
+  /** Refund a transaction */
+  refundTransaction: '/transactions/{id}/refund',
+  /** Get the accrual of a streaming transaction */
+  getTransactionStreamInfo: '/transactions/{id}/stream-info',
+  /** Convert a transaction into a stream */
+  createStream: '/transactions/{id}/stream',
+  /** List a transaction's streams */
+  listTransactionStreams: '/transactions/{id}/streams',
+  /** Execute a transaction through the default payment gateway */
+  executeTransactionViaGateway: '/transactions/{id}/gateway/execute',
+  /** Execute a transaction through a specific payment gateway */
+  executeTransactionWithGateway: '/transactions/{id}/gateways/{gatewayId}/execute',
+  /** List streams */
+  listStreams: '/streams',
+  /** Retrieve a stream */
+  retrieveStream: '/streams/{id}',
+  /** Update a stream's rate or end time */
+  updateStream: '/streams/{id}',
+  /** Pause a stream */
+  pauseStream: '/streams/{id}/pause',
+  /** Resume a paused stream */
+  resumeStream: '/streams/{id}/resume',
+  /** Stop a stream */
+  stopStream: '/streams/{id}/stop',
+  /** Subscribe to events for every stream */
+  streamAllEvents: '/sse/streams',
+  /** Subscribe to events for a stream */
+  streamEvents: '/sse/streams/{id}',
+  /** Subscribe to events for an account's streams */
+  streamAccountEvents: '/sse/accounts/{id}/streams',
+  /** Subscribe to events for a transaction */
+  streamTransactionEvents: '/sse/transactions/{id}',
+  /** List payment gateways */
+  listGateways: '/gateways',
+  /** Start identity verification */
+  initiateKyc: '/kyc/initiate',
+  /** Get an account's verification status */
+  getKycStatus: '/kyc/status/{accountId}',
+  /** Receive a verification provider callback */
+  processKycWebhook: '/kyc/webhook',
+  /** Get system statistics */
+  getSystemStats: '/admin/stats',
+  /** List every account */
+  adminListAccounts: '/admin/accounts',
+  /** List every transaction */
+  adminListTransactions: '/admin/transactions',
+  /** List every stream */
+  adminListStreams: '/admin/streams',
+  /** Check service health */
+  getHealth: '/health',
+  /** Check that the service is reachable */
+  ping: '/ping',
+  /** Get this specification */
+  getOpenApiSpec: '/openapi.json',
+} as const;
+
+export type OperationId = keyof typeof ROUTES;
+
+/** Every operation the engine exposes */
+export const OPERATIONS: ReadonlyArray<{ operationId: OperationId; method: string; path: string }> = [
+  { operationId: 'listAccounts', method: 'GET', path: '/accounts' },
+  { operationId: 'createAccount', method: 'POST', path: '/accounts' },
+  { operationId: 'retrieveAccount', method: 'GET', path: '/accounts/{id}' },
+  { operationId: 'updateAccount', method: 'PUT', path: '/accounts/{id}' },
+  { operationId: 'patchAccount', method: 'PATCH', path: '/accounts/{id}' },
+  { operationId: 'deleteAccount', method: 'DELETE', path: '/accounts/{id}' },
+  { operationId: 'listChildAccounts', method: 'GET', path: '/accounts/{id}/children' },
+  { operationId: 'listAccountTransactions', method: 'GET', path: '/accounts/{id}/transactions' },
+  { operationId: 'listAccountStreams', method: 'GET', path: '/accounts/{id}/streams' },
+  { operationId: 'getAccountBalance', method: 'GET', path: '/accounts/{id}/balance' },
+  { operationId: 'purchaseProduct', method: 'POST', path: '/accounts/{id}/purchase' },
+  { operationId: 'submitKycDocument', method: 'POST', path: '/accounts/{id}/kyc' },
+  { operationId: 'verifyAccount', method: 'POST', path: '/accounts/{id}/verify' },
+  { operationId: 'rejectAccountVerification', method: 'POST', path: '/accounts/{id}/reject-verification' },
+  { operationId: 'listTransactions', method: 'GET', path: '/transactions' },
+  { operationId: 'createTransaction', method: 'POST', path: '/transactions' },
+  { operationId: 'retrieveTransaction', method: 'GET', path: '/transactions/{id}' },
+  { operationId: 'updateTransaction', method: 'PUT', path: '/transactions/{id}' },
+  { operationId: 'patchTransaction', method: 'PATCH', path: '/transactions/{id}' },
+  { operationId: 'deleteTransaction', method: 'DELETE', path: '/transactions/{id}' },
+  { operationId: 'listChildTransactions', method: 'GET', path: '/transactions/{id}/children' },
+  { operationId: 'executeTransaction', method: 'POST', path: '/transactions/{id}/execute' },
+  { operationId: 'cancelTransaction', method: 'POST', path: '/transactions/{id}/cancel' },
+  { operationId: 'triggerTransactionEvent', method: 'POST', path: '/transactions/{id}/trigger' },
+  { operationId: 'refundTransaction', method: 'POST', path: '/transactions/{id}/refund' },
+  { operationId: 'getTransactionStreamInfo', method: 'GET', path: '/transactions/{id}/stream-info' },
+  { operationId: 'createStream', method: 'POST', path: '/transactions/{id}/stream' },
+  { operationId: 'listTransactionStreams', method: 'GET', path: '/transactions/{id}/streams' },
+  { operationId: 'executeTransactionViaGateway', method: 'POST', path: '/transactions/{id}/gateway/execute' },
+  { operationId: 'executeTransactionWithGateway', method: 'POST', path: '/transactions/{id}/gateways/{gatewayId}/execute' },
+  { operationId: 'listStreams', method: 'GET', path: '/streams' },
+  { operationId: 'retrieveStream', method: 'GET', path: '/streams/{id}' },
+  { operationId: 'updateStream', method: 'PUT', path: '/streams/{id}' },
+  { operationId: 'pauseStream', method: 'POST', path: '/streams/{id}/pause' },
+  { operationId: 'resumeStream', method: 'POST', path: '/streams/{id}/resume' },
+  { operationId: 'stopStream', method: 'POST', path: '/streams/{id}/stop' },
+  { operationId: 'streamAllEvents', method: 'GET', path: '/sse/streams' },
+  { operationId: 'streamEvents', method: 'GET', path: '/sse/streams/{id}' },
+  { operationId: 'streamAccountEvents', method: 'GET', path: '/sse/accounts/{id}/streams' },
+  { operationId: 'streamTransactionEvents', method: 'GET', path: '/sse/transactions/{id}' },
+  { operationId: 'listGateways', method: 'GET', path: '/gateways' },
+  { operationId: 'initiateKyc', method: 'POST', path: '/kyc/initiate' },
+  { operationId: 'getKycStatus', method: 'GET', path: '/kyc/status/{accountId}' },
+  { operationId: 'processKycWebhook', method: 'POST', path: '/kyc/webhook' },
+  { operationId: 'getSystemStats', method: 'GET', path: '/admin/stats' },
+  { operationId: 'adminListAccounts', method: 'GET', path: '/admin/accounts' },
+  { operationId: 'adminListTransactions', method: 'GET', path: '/admin/transactions' },
+  { operationId: 'adminListStreams', method: 'GET', path: '/admin/streams' },
+  { operationId: 'getHealth', method: 'GET', path: '/health' },
+  { operationId: 'ping', method: 'GET', path: '/ping' },
+  { operationId: 'getOpenApiSpec', method: 'GET', path: '/openapi.json' },
+];
@@ -1,5 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
 import { HttpClient } from "./http";
+import { Money } from "./money";
+import {
+  APIErrorResponse,
+  ConflictError,
+  InsufficientFundsError,
+  LimitExceededError,
+  NetworkError,
+  PermissionDeniedError,
+  RateLimitError,
+  RequestAbortedError,
+  ResponseValidationError,
+  UnprocessableEntityError,
+} from "./errors";
 
 describe("HttpClient", () => {
   let httpClient: HttpClient;
@@ -299,4 +312,825 @@ describe("HttpClient", () => {
       await expect(httpClient.get("/test")).rejects.toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe("Retries", () => {
+    const jsonResponse = (status: number, body: any, headers: Record<string, string> = {}) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json", ...headers },
+      });
+
+    let retryingClient: HttpClient;
+
+    beforeEach(() => {
+      retryingClient = new HttpClient(
+        "test-api-key",
+        "https://api.quicksilver.com",
+        30000,
+        { retry: { maxAttempts: 3, baseDelay: 1, jitter: 0 } }
+      );
+    });
+
+    it("should not retry when no retry policy is configured", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 503 })));
+
+      await expect(httpClient.get("/test")).rejects.toThrow("Internal server error");
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry transient server errors until success", async () => {
+      let calls = 0;
+      global.fetch = mock(() =>
+        Promise.resolve(++calls < 3 ? new Response(null, { status: 503 }) : jsonResponse(200, { ok: true }))
+      );
+
+      const result = await retryingClient.get("/test");
+
+      expect(result).toEqual({ ok: true });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should retry network errors", async () => {
+      let calls = 0;
+      global.fetch = mock(() =>
+        ++calls < 2 ? Promise.reject(new TypeError("fetch failed")) : Promise.resolve(jsonResponse(200, { ok: true }))
+      );
+
+      await expect(retryingClient.get("/test")).resolves.toEqual({ ok: true });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry a response whose body is not valid JSON", async () => {
+      const malformedResponse = () => new Response("{bad", { headers: { "content-type": "application/json" } });
+      global.fetch = mock(() => Promise.resolve(malformedResponse()));
+      await expect(httpClient.get("/test")).rejects.toThrow("Network error");
+
+      let calls = 0;
+      global.fetch = mock(() => Promise.resolve(++calls < 2 ? malformedResponse() : jsonResponse(200, { ok: true })));
+      await expect(retryingClient.get("/test")).resolves.toEqual({ ok: true });
+    });
+
+    it("should retry a response whose body fails while it is read", async () => {
+      let calls = 0;
+      const brokenResponse = () => new Response(new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"ok":'));
+          controller.error(new TypeError("socket hang up"));
+        },
+      }), { headers: { "content-type": "application/json" } });
+      global.fetch = mock(() => Promise.resolve(++calls < 2 ? brokenResponse() : jsonResponse(200, { ok: true })));
+
+      await expect(retryingClient.get("/test")).resolves.toEqual({ ok: true });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should rethrow local errors unchanged without retrying", async () => {
+      global.fetch = mock(() => Promise.resolve(jsonResponse(200, { ok: true })));
+      const body: Record<string, unknown> = {};
+      body["self"] = body;
+
+      await expect(retryingClient.post("/test", body)).rejects.toBeInstanceOf(TypeError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should give up after maxAttempts", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 502 })));
+
+      await expect(retryingClient.get("/test")).rejects.toThrow("Internal server error");
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not retry non-retryable status codes", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 400 })));
+
+      await expect(retryingClient.get("/test")).rejects.toThrow("Bad request");
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry POST requests with the same idempotency key", async () => {
+      let calls = 0;
+      global.fetch = mock(() =>
+        Promise.resolve(++calls < 2 ? new Response(null, { status: 503 }) : jsonResponse(201, { id: "txn_1" }))
+      );
+
+      const result = await retryingClient.post("/transactions", { amount: 1 });
+
+      expect(result).toEqual({ id: "txn_1" });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      const [first, second] = (global.fetch as any).mock.calls.map((call: any[]) => call[1].headers["Idempotency-Key"]);
+      expect(first).toBeDefined();
+      expect(second).toBe(first);
+    });
+
+    it("should honor Retry-After within maxDelay", async () => {
+      let calls = 0;
+      global.fetch = mock(() =>
+        Promise.resolve(
+          ++calls < 2
+            ? new Response(null, { status: 429, headers: { "Retry-After": "0" } })
+            : jsonResponse(200, { ok: true })
+        )
+      );
+
+      await expect(retryingClient.get("/test")).resolves.toEqual({ ok: true });
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry when Retry-After exceeds maxDelay", async () => {
+      global.fetch = mock(() =>
+        Promise.resolve(new Response(null, { status: 429, headers: { "Retry-After": "120" } }))
+      );
+
+      await expect(retryingClient.get("/test")).rejects.toThrow("Rate limit exceeded");
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should allow per-request overrides", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 503 })));
+
+      await expect(retryingClient.get("/test", {}, {}, { retry: false })).rejects.toThrow();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      await expect(httpClient.get("/test", {}, {}, { retry: { maxAttempts: 2, baseDelay: 1 } })).rejects.toThrow();
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("Idempotency keys", () => {
+    const idempotencyKeyOf = (callIndex = 0) =>
+      (global.fetch as any).mock.calls[callIndex][1].headers["Idempotency-Key"];
+
+    beforeEach(() => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+    });
+
+    it("should generate a unique key for each mutating request", async () => {
+      await httpClient.post("/transactions", {});
+      await httpClient.put("/transactions/txn_1", {});
+      await httpClient.patch("/transactions/txn_1", {});
+
+      const keys = [0, 1, 2].map(idempotencyKeyOf);
+      keys.forEach(key => expect(typeof key).toBe("string"));
+      expect(new Set(keys).size).toBe(3);
+    });
+
+    it("should not add a key to GET or DELETE requests", async () => {
+      await httpClient.get("/transactions");
+      await httpClient.delete("/transactions/txn_1");
+
+      expect(idempotencyKeyOf(0)).toBeUndefined();
+      expect(idempotencyKeyOf(1)).toBeUndefined();
+    });
+
+    it("should use the key supplied by the caller", async () => {
+      await httpClient.post("/transactions", {}, {}, { idempotencyKey: "order-42" });
+      await httpClient.withConfig({ idempotencyKey: "order-43" }).post("/transactions", {});
+
+      expect(idempotencyKeyOf(0)).toBe("order-42");
+      expect(idempotencyKeyOf(1)).toBe("order-43");
+    });
+
+    it("should keep an explicit Idempotency-Key header", async () => {
+      await httpClient.post("/transactions", {}, { "idempotency-key": "header-key" });
+
+      const headers = (global.fetch as any).mock.calls[0][1].headers;
+      expect(headers["idempotency-key"]).toBe("header-key");
+      expect(headers["Idempotency-Key"]).toBeUndefined();
+    });
+  });
+
+  describe("Rate limit metadata", () => {
+    const rateLimitedResponse = (headers: Record<string, string>) =>
+      new Response(JSON.stringify({ error: "rate_limited", message: "Slow down", status_code: 429 }), {
+        status: 429,
+        headers: { "content-type": "application/json", ...headers },
+      });
+
+    it("should expose Retry-After in delta-seconds form", async () => {
+      global.fetch = mock(() => Promise.resolve(rateLimitedResponse({ "Retry-After": "30" })));
+
+      const error = await httpClient.get("/test").catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.message).toBe("Slow down");
+      expect(error.retryAfter).toBe(30);
+      expect(error.details).toEqual({ retryAfter: 30 });
+    });
+
+    it("should expose Retry-After in HTTP-date form", async () => {
+      const retryAt = new Date(Date.now() + 90_000).toUTCString();
+      global.fetch = mock(() => Promise.resolve(rateLimitedResponse({ "Retry-After": retryAt })));
+
+      const error = await httpClient.get("/test").catch(e => e);
+
+      expect(error.retryAfter).toBeGreaterThan(85);
+      expect(error.retryAfter).toBeLessThanOrEqual(90);
+    });
+
+    it("should expose X-RateLimit headers", async () => {
+      global.fetch = mock(() =>
+        Promise.resolve(
+          rateLimitedResponse({
+            "X-RateLimit-Limit": "100",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset": "1767225600",
+          })
+        )
+      );
+
+      const error = await httpClient.get("/test").catch(e => e);
+
+      expect(error.retryAfter).toBeUndefined();
+      expect(error.rateLimit).toEqual({ limit: 100, remaining: 0, reset: 1767225600 });
+    });
+
+    it("should call onRateLimit for every rate-limited attempt", async () => {
+      const onRateLimit = mock(() => {});
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, {
+        retry: { maxAttempts: 2, baseDelay: 1 },
+        onRateLimit,
+      });
+      global.fetch = mock(() =>
+        Promise.resolve(rateLimitedResponse({ "Retry-After": "0", "X-RateLimit-Remaining": "0" }))
+      );
+
+      await expect(client.get("/test")).rejects.toBeInstanceOf(RateLimitError);
+
+      expect(onRateLimit).toHaveBeenCalledTimes(2);
+      expect(onRateLimit).toHaveBeenLastCalledWith({
+        method: "GET",
+        url: "/test",
+        attempt: 2,
+        retryAfter: 0,
+        rateLimit: { remaining: 0 },
+      });
+    });
+  });
+
+  describe("Middleware", () => {
+    beforeEach(() => {
+      global.fetch = mock(() =>
+        Promise.resolve(
+          new Response(JSON.stringify({ id: "123" }), {
+            status: 200,
+            headers: { "content-type": "application/json", "x-request-id": "req_1" },
+          })
+        )
+      );
+    });
+
+    it("should run middleware in registration order", async () => {
+      const order: string[] = [];
+      httpClient
+        .use(async (request, next) => {
+          order.push("first:before");
+          const response = await next();
+          order.push("first:after");
+          return response;
+        })
+        .use(async (request, next) => {
+          order.push("second:before");
+          const response = await next();
+          order.push("second:after");
+          return response;
+        });
+
+      await httpClient.get("/test");
+
+      expect(order).toEqual(["first:before", "second:before", "second:after", "first:after"]);
+    });
+
+    it("should let middleware change the outgoing request", async () => {
+      httpClient.use((request, next) =>
+        next({ ...request, headers: { ...request.headers, Authorization: "Bearer rotated-token" } })
+      );
+
+      await httpClient.get("/test");
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://api.quicksilver.com/test",
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: "Bearer rotated-token" }),
+        })
+      );
+    });
+
+    it("should expose the response status and headers", async () => {
+      let seen: any;
+      httpClient.use(async (request, next) => {
+        seen = await next();
+        return { ...seen, data: { ...seen.data, transformed: true } };
+      });
+
+      const result = await httpClient.get("/test");
+
+      expect(seen.status).toBe(200);
+      expect(seen.headers["x-request-id"]).toBe("req_1");
+      expect(result).toEqual({ id: "123", transformed: true });
+    });
+
+    it("should allow short-circuiting the request", async () => {
+      httpClient.use(async () => ({ data: { cached: true }, status: 200, headers: {} }));
+
+      const result = await httpClient.get("/test");
+
+      expect(result).toEqual({ cached: true });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should let middleware observe and replace errors", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 500 })));
+      httpClient.use(async (request, next) => {
+        try {
+          return await next();
+        } catch (error) {
+          throw new Error(`${request.method} ${request.url} failed: ${(error as Error).message}`);
+        }
+      });
+
+      await expect(httpClient.get("/test")).rejects.toThrow("GET /test failed: Internal server error");
+    });
+  });
+
+  describe("Transport", () => {
+    it("should send requests through a custom fetch", async () => {
+      const customFetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+      global.fetch = mock(() => Promise.reject(new Error("global fetch should not be used")));
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, {
+        transport: { fetch: customFetch },
+      });
+
+      await client.delete("/items/123");
+
+      expect(customFetch).toHaveBeenCalledWith(
+        "https://api.quicksilver.com/items/123",
+        expect.objectContaining({ method: "DELETE" })
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should resolve the global fetch at request time", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+
+      await httpClient.delete("/items/123");
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Strict mode", () => {
+    const jsonResponse = (body: unknown) =>
+      new Response(JSON.stringify(body), { headers: { "content-type": "application/json", "x-request-id": "req_1" } });
+
+    it("should reject responses that don't match the route's schema", async () => {
+      global.fetch = mock(() => Promise.resolve(jsonResponse({ id: "acc_1", balance: 100 })));
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { strict: true });
+
+      const error = await client.get("/accounts/acc_1").catch(e => e);
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error.requestId).toBe("req_1");
+      expect(error.message).toContain("GET /accounts/{id}");
+      expect(error.message).toContain("- $.name: expected string, received undefined");
+      expect(error.message).toContain("+ $.balance: unexpected property (100)");
+    });
+
+    it("should not validate without strict mode or for unknown routes", async () => {
+      global.fetch = mock(() => Promise.resolve(jsonResponse({ id: "acc_1", balance: 100 })));
+      const strictClient = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { strict: true });
+
+      await expect(httpClient.get("/accounts/acc_1")).resolves.toEqual({ id: "acc_1", balance: 100 });
+      await expect(strictClient.get("/admin/stats")).resolves.toEqual({ id: "acc_1", balance: 100 });
+    });
+  });
+
+  describe("Money amounts", () => {
+    it("should send Money as JSON numbers", async () => {
+      const fetchMock = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+      global.fetch = fetchMock;
+
+      await httpClient.post("/transactions", { amount: Money.of("0.1").plus("0.2"), currency: "USD", meta: { fee: Money.of("0.000015") } });
+
+      const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+      expect(init.body).toBe('{"amount":0.3,"currency":"USD","meta":{"fee":0.000015}}');
+    });
+
+    it("should parse response amounts into Money when enabled", async () => {
+      const transaction = { id: "txn_1", amount: 19.99, currency: "USDC", children: [] };
+      global.fetch = mock(() => Promise.resolve(new Response(JSON.stringify({
+        base: transaction,
+        rate: 0.00002,
+        accumulated: 1.5,
+      }), { headers: { "content-type": "application/json" } })));
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { amounts: "money" });
+
+      const stream = await client.get<any>("/streams/str_1");
+
+      expect(stream.base.amount).toBeInstanceOf(Money);
+      expect(stream.base.amount.toString()).toBe("19.990000");
+      expect(stream.rate.currency).toBe("USDC");
+      expect(stream.accumulated.toString()).toBe("1.500000");
+      await expect(httpClient.get<any>("/streams/str_1")).resolves.toMatchObject({ rate: 0.00002 });
+    });
+  });
+
+  describe("Instrumentation", () => {
+    function fakeInstrumentation() {
+      const span = { setAttributes: mock(() => {}), recordError: mock(() => {}), end: mock(() => {}) };
+      return {
+        span,
+        startSpan: mock(() => span),
+        recordHistogram: mock(() => {}),
+        incrementCounter: mock(() => {}),
+      };
+    }
+
+    it("should emit a span and a latency sample per call", async () => {
+      let calls = 0;
+      global.fetch = mock(() =>
+        Promise.resolve(++calls < 2 ? new Response(null, { status: 503 }) : new Response(null, { status: 204 }))
+      );
+      const instrumentation = fakeInstrumentation();
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { instrumentation });
+
+      await client.post("/transactions/txn_1/execute", {}, {}, { retry: { baseDelay: 1 } });
+
+      const attributes = {
+        "quicksilver.resource": "transactions",
+        "http.request.method": "POST",
+        "http.route": "/transactions/{id}/execute",
+        "http.response.status_code": 204,
+        "quicksilver.retry_count": 1,
+      };
+      expect(instrumentation.startSpan).toHaveBeenCalledWith("POST /transactions/{id}/execute", expect.anything());
+      expect(instrumentation.span.setAttributes).toHaveBeenCalledWith(attributes);
+      expect(instrumentation.span.end).toHaveBeenCalledTimes(1);
+      expect(instrumentation.recordHistogram).toHaveBeenCalledWith(
+        "quicksilver.client.request.duration",
+        expect.any(Number),
+        attributes
+      );
+    });
+
+    it("should record the error class of failed calls", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 404 })));
+      const instrumentation = fakeInstrumentation();
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { instrumentation });
+
+      await expect(client.get("/accounts/acc_404")).rejects.toThrow();
+
+      expect(instrumentation.span.recordError).toHaveBeenCalledTimes(1);
+      expect(instrumentation.span.setAttributes).toHaveBeenCalledWith(expect.objectContaining({
+        "http.route": "/accounts/{id}",
+        "http.response.status_code": 404,
+        "error.type": "NotFoundError",
+        "quicksilver.retry_count": 0,
+      }));
+    });
+  });
+
+  describe("Logging", () => {
+    const fakeLogger = () => ({ debug: mock(() => {}), info: mock(() => {}), warn: mock(() => {}), error: mock(() => {}) });
+
+    it("should log requests and responses with credentials and PII redacted", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+      const logger = fakeLogger();
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { logger, logLevel: "debug" });
+
+      await client.post("/kyc/initiate", { account_id: "acc_1", date_of_birth: "1990-01-01" });
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.objectContaining({
+          method: "POST",
+          url: "https://api.quicksilver.com/kyc/initiate",
+          headers: expect.objectContaining({ Authorization: "[REDACTED]" }),
+          body: { account_id: "acc_1", date_of_birth: "[REDACTED]" },
+        }),
+        "HTTP request"
+      );
+      expect(logger.debug).toHaveBeenCalledWith(
+        expect.objectContaining({ method: "POST", status: 204, durationMs: expect.any(Number) }),
+        "HTTP response"
+      );
+    });
+
+    it("should log retries and network failures", async () => {
+      global.fetch = mock(() => Promise.reject(new Error("socket hang up")));
+      const logger = fakeLogger();
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { logger });
+
+      await expect(client.get("/test", {}, {}, { retry: { maxAttempts: 2, baseDelay: 1 } })).rejects.toThrow();
+
+      expect(logger.debug).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ method: "GET", url: "/test", attempt: 1 }),
+        "Retrying request"
+      );
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ error: { name: "Error", message: "socket hang up" } }),
+        "HTTP request failed"
+      );
+    });
+  });
+
+  describe("Request bodies", () => {
+    const sentInit = () => (global.fetch as any).mock.calls[0][1] as RequestInit & { duplex?: string };
+
+    beforeEach(() => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+    });
+
+    it("should send FormData as multipart without a JSON content type", async () => {
+      const formData = new FormData();
+      formData.append("document_type", "passport");
+
+      await httpClient.post("/accounts/acc_1/kyc", formData);
+
+      expect(sentInit().body).toBe(formData);
+      expect((sentInit().headers as Record<string, string>)["Content-Type"]).toBeUndefined();
+    });
+
+    it("should send Blobs as raw bytes with their own content type", async () => {
+      const blob = new Blob(["%PDF-1.7"], { type: "application/pdf" });
+
+      await httpClient.put("/documents/doc_1", blob);
+
+      expect(sentInit().body).toBe(blob);
+      expect((sentInit().headers as Record<string, string>)["Content-Type"]).toBe("application/pdf");
+    });
+
+    it("should report upload progress for multipart bodies", async () => {
+      global.fetch = mock(async (_url: string, init: RequestInit) => {
+        // Consume the body like a real transport would
+        await new Response(init.body).arrayBuffer();
+        return new Response(null, { status: 204 });
+      });
+      const formData = new FormData();
+      formData.append("document_file", new Blob([new Uint8Array(1024)]), "scan.png");
+      const onUploadProgress = mock(() => {});
+
+      await httpClient.post("/accounts/acc_1/kyc", formData, {}, { onUploadProgress });
+
+      const headers = sentInit().headers as Record<string, string>;
+      expect(headers["Content-Type"]).toStartWith("multipart/form-data; boundary=");
+      expect(sentInit().duplex).toBe("half");
+      const events = onUploadProgress.mock.calls.map(([event]) => event) as Array<{ loaded: number; total: number }>;
+      expect(events.length).toBeGreaterThan(0);
+      expect(events[events.length - 1]!.loaded).toBe(events[0]!.total);
+    });
+
+    it("should not retry requests with a stream body", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 503 })));
+      const stream = new ReadableStream({ start: controller => controller.close() });
+
+      await expect(httpClient.put("/documents/doc_1", stream, {}, { retry: { baseDelay: 1 } })).rejects.toThrow();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Client-side rate limiting", () => {
+    it("should queue requests over the concurrency limit", async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      global.fetch = mock(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return new Response(null, { status: 204 });
+      });
+      const onQueue = mock(() => {});
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, {
+        rateLimiter: { maxConcurrent: 2, onQueue },
+      });
+
+      await Promise.all([1, 2, 3, 4].map(id => client.get(`/items/${id}`)));
+
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+      expect(maxInFlight).toBe(2);
+      expect(onQueue).toHaveBeenCalledTimes(2);
+    });
+
+    it("should hold back requests while the server reports no remaining requests", async () => {
+      global.fetch = mock(() =>
+        Promise.resolve(new Response(null, { status: 204, headers: { "X-RateLimit-Remaining": "0", "Retry-After": "1" } }))
+      );
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, { rateLimiter: {} });
+
+      await client.get("/items/1");
+      const controller = new AbortController();
+      const next = client.get("/items/2", {}, {}, { signal: controller.signal });
+      controller.abort();
+
+      await expect(next).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Request tracing", () => {
+    const sentHeaders = (callIndex = 0) => (global.fetch as any).mock.calls[callIndex][1].headers;
+
+    it("should send a correlation ID that is stable across retries", async () => {
+      let calls = 0;
+      global.fetch = mock(() =>
+        Promise.resolve(++calls < 2 ? new Response(null, { status: 503 }) : new Response(null, { status: 204 }))
+      );
+
+      await httpClient.get("/test", {}, {}, { retry: { baseDelay: 1 } });
+
+      expect(typeof sentHeaders(0)["X-Correlation-Id"]).toBe("string");
+      expect(sentHeaders(1)["X-Correlation-Id"]).toBe(sentHeaders(0)["X-Correlation-Id"]);
+    });
+
+    it("should attach the request and correlation IDs to errors", async () => {
+      global.fetch = mock(() =>
+        Promise.resolve(new Response(null, { status: 404, headers: { "X-Request-Id": "req_server_1" } }))
+      );
+
+      const error = await httpClient.get("/test", {}, {}, { correlationId: "corr_1" }).catch(e => e);
+
+      expect(error.requestId).toBe("req_server_1");
+      expect(error.correlationId).toBe("corr_1");
+      expect(sentHeaders()["X-Correlation-Id"]).toBe("corr_1");
+    });
+
+    it("should attach the correlation ID to network errors", async () => {
+      global.fetch = mock(() => Promise.reject(new TypeError("fetch failed")));
+
+      const error = await httpClient.get("/test").catch(e => e);
+
+      expect(error.requestId).toBeUndefined();
+      expect(error.correlationId).toBe(sentHeaders()["X-Correlation-Id"]);
+    });
+
+    it("should propagate a per-request trace context", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+      const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+      await httpClient.get("/test", {}, {}, { traceContext: { traceparent, tracestate: "vendor=1" } });
+
+      expect(sentHeaders()).toEqual(expect.objectContaining({ traceparent, tracestate: "vendor=1" }));
+    });
+
+    it("should read the trace context from the provider", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 204 })));
+      const traceparent = "00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01";
+      const client = new HttpClient("test-api-key", "https://api.quicksilver.com", 30000, {
+        traceContext: () => ({ traceparent }),
+      });
+
+      await client.get("/test");
+
+      expect(sentHeaders().traceparent).toBe(traceparent);
+      expect(sentHeaders().tracestate).toBeUndefined();
+    });
+  });
+
+  describe("Cancellation", () => {
+    // A fetch that never responds and only settles when its signal aborts
+    const hangingFetch = () =>
+      mock((_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(new DOMException("The operation was aborted.", "AbortError"))
+          );
+        })
+      );
+
+    it("should raise RequestAbortedError when the caller aborts", async () => {
+      global.fetch = hangingFetch() as any;
+      const controller = new AbortController();
+
+      const request = httpClient.get("/test", {}, {}, { signal: controller.signal });
+      controller.abort();
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it("should not send requests whose signal is already aborted", async () => {
+      global.fetch = hangingFetch() as any;
+
+      const request = httpClient.get("/test", {}, {}, { signal: AbortSignal.abort() });
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should report timeouts as NetworkError", async () => {
+      global.fetch = hangingFetch() as any;
+      const controller = new AbortController();
+
+      const error = await httpClient.get("/test", {}, {}, { signal: controller.signal, timeout: 5 }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error).not.toBeInstanceOf(RequestAbortedError);
+      expect(error.message).toBe("Request timeout");
+    });
+
+    it("should stop retrying when aborted during backoff", async () => {
+      global.fetch = mock(() => Promise.resolve(new Response(null, { status: 503 })));
+      const controller = new AbortController();
+
+      const request = httpClient.get("/test", {}, {}, {
+        signal: controller.signal,
+        retry: { maxAttempts: 5, baseDelay: 10_000 },
+      });
+      setTimeout(() => controller.abort(), 5);
+
+      await expect(request).rejects.toBeInstanceOf(RequestAbortedError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Error mapping", () => {
+    const errorResponse = (status: number, body?: Record<string, any>) =>
+      new Response(body ? JSON.stringify(body) : null, {
+        status,
+        headers: body ? { "content-type": "application/json" } : {},
+      });
+
+    const errorFor = (response: Response) => {
+      global.fetch = mock(() => Promise.resolve(response));
+      return httpClient.get("/test").catch(e => e);
+    };
+
+    it("should map 403 to PermissionDeniedError", async () => {
+      const error = await errorFor(errorResponse(403));
+
+      expect(error).toBeInstanceOf(PermissionDeniedError);
+      expect(error).toBeInstanceOf(APIErrorResponse);
+      expect(error.statusCode).toBe(403);
+      expect(error.apiError.error).toBe("permission_denied");
+    });
+
+    it("should map 409 to ConflictError and keep the parsed body", async () => {
+      const body = {
+        error: "invalid_state_transition",
+        message: "Cannot execute a Completed transaction",
+        status_code: 409,
+        details: { state: "Completed" },
+      };
+
+      const error = await errorFor(errorResponse(409, body));
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect(error.message).toBe("Cannot execute a Completed transaction");
+      expect(error.apiError).toEqual(body);
+      expect(error.details).toEqual({ state: "Completed" });
+    });
+
+    it("should map 422 to UnprocessableEntityError with field errors", async () => {
+      const error = await errorFor(
+        errorResponse(422, {
+          error: "validation_failed",
+          message: "Invalid transaction",
+          status_code: 422,
+          details: { errors: [{ field: "amount", message: "must be positive", code: "min" }] },
+        })
+      );
+
+      expect(error).toBeInstanceOf(UnprocessableEntityError);
+      expect(error.fieldErrors).toEqual([{ field: "amount", message: "must be positive", code: "min" }]);
+    });
+
+    it("should read field errors reported as a map", async () => {
+      const error = await errorFor(
+        errorResponse(422, {
+          error: "validation_failed",
+          message: "Invalid account",
+          status_code: 422,
+          details: { fields: { name: ["is required", "is too short"], account_type: "is invalid" } },
+        })
+      );
+
+      expect(error.fieldErrors).toEqual([
+        { field: "name", message: "is required" },
+        { field: "name", message: "is too short" },
+        { field: "account_type", message: "is invalid" },
+      ]);
+    });
+
+    it("should map business error codes regardless of status", async () => {
+      const insufficient = await errorFor(
+        errorResponse(402, { error: "insufficient_funds", message: "Balance too low", status_code: 402 })
+      );
+      const limit = await errorFor(
+        errorResponse(422, { error: "limit_exceeded", message: "Daily limit reached", status_code: 422 })
+      );
+
+      expect(insufficient).toBeInstanceOf(InsufficientFundsError);
+      expect(insufficient.message).toBe("Balance too low");
+      expect(limit).toBeInstanceOf(LimitExceededError);
+      expect(limit).not.toBeInstanceOf(UnprocessableEntityError);
+    });
+
+    it("should keep other JSON errors as APIErrorResponse", async () => {
+      const error = await errorFor(
+        errorResponse(400, { error: "bad_request", message: "Malformed payload", status_code: 400 })
+      );
+
+      expect(error.constructor).toBe(APIErrorResponse);
+      expect(error.message).toBe("Malformed payload");
+    });
+  });
+});
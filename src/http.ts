@@ -7,32 +7,231 @@ import {
   ValidationError,
   NotFoundError,
   QuicksilverError,
+  RequestAbortedError,
+  PermissionDeniedError,
+  ConflictError,
+  UnprocessableEntityError,
+  InsufficientFundsError,
+  LimitExceededError,
+  ResponseValidationError,
 } from './errors';
-import type { APIError } from './types';
+import type { APIError, RateLimitInfo } from './types';
+import { ApiPromise } from './api-promise';
+import { resolveTransport } from './transport';
+import type { Transport } from './transport';
+import { RateLimiter } from './rate-limiter';
+import type { RateLimiterOptions } from './rate-limiter';
+import { CircuitBreaker } from './circuit-breaker';
+import { describeBody, encodeRequestBody, isReadableStream } from './request-body';
+import { createLogger } from './logger';
+import type { Logger, LogLevel } from './logger';
+import { getRouteTemplate, noopInstrumentation, REQUEST_DURATION_METRIC } from './instrumentation';
+import type { Attributes, Instrumentation } from './instrumentation';
+import { RESPONSE_SCHEMAS } from './schemas';
+import { validate } from './validation';
+import { ROUTES } from './routes';
+import { parseAmounts } from './money';
+import type { UploadProgressEvent } from './request-body';
+import type { CircuitBreakerOptions } from './circuit-breaker';
+import { StreamConnection } from './realtime/sse';
+import type { StreamConnectionOptions } from './realtime/sse';
 
-export interface RequestOptions {
+export interface RequestOptions extends RequestConfig {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   url: string;
   data?: any;
   headers?: Record<string, string>;
+}
+
+/**
+ * Per-request settings that override the client defaults
+ */
+export interface RequestConfig {
   timeout?: number;
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Retry policy for this request, or `false` to disable retries */
+  retry?: RetryOptions | false;
+  /**
+   * Idempotency key sent with POST, PUT and PATCH requests.
+   * A key is generated automatically when omitted.
+   */
+  idempotencyKey?: string;
+  /**
+   * Client-side ID sent as X-Correlation-Id and attached to errors.
+   * An ID is generated automatically when omitted.
+   */
+  correlationId?: string;
+  /** W3C trace context to propagate with this request */
+  traceContext?: TraceContext;
+  /** Pass `false` to send the request even while the circuit breaker is open, e.g. for health checks */
+  circuitBreaker?: false;
+  /** Called as the request body is sent, e.g. to show the progress of a document upload */
+  onUploadProgress?: (event: UploadProgressEvent) => void;
+}
+
+/**
+ * W3C Trace Context headers (https://www.w3.org/TR/trace-context/)
+ */
+export interface TraceContext {
+  traceparent: string;
+  tracestate?: string;
+}
+
+/**
+ * Policy for automatically retrying failed requests
+ */
+export interface RetryOptions {
+  /** Total number of attempts, including the first one. Defaults to 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds. Defaults to 500. */
+  baseDelay?: number;
+  /** Upper bound for a single backoff delay in milliseconds. Defaults to 30000. */
+  maxDelay?: number;
+  /** Fraction (0-1) of each delay that is randomized. Defaults to 0.2. */
+  jitter?: number;
+  /** HTTP status codes that are considered transient. */
+  retryableStatusCodes?: number[];
+}
+
+/**
+ * Details passed to the onRateLimit hook whenever the server answers 429
+ */
+export interface RateLimitEvent {
+  method: RequestOptions['method'];
+  url: string;
+  /** Attempt number of the rate-limited request, starting at 1 */
+  attempt: number;
+  /** Seconds to wait before retrying, from the Retry-After header */
+  retryAfter?: number;
+  rateLimit: RateLimitInfo;
+}
+
+export interface HttpClientOptions {
+  /** Retry policy applied to every request. Retries are disabled when omitted. */
+  retry?: RetryOptions;
+  /** Called for every rate-limited response, including ones that are retried */
+  onRateLimit?: (event: RateLimitEvent) => void;
+  /** Middleware to register, in order */
+  middleware?: Middleware[];
+  /** Custom fetch implementation for REST requests and real-time subscriptions */
+  transport?: Transport;
+  /**
+   * Provides the active trace context for requests that don't specify one,
+   * e.g. from AsyncLocalStorage or an OpenTelemetry context
+   */
+  traceContext?: () => TraceContext | undefined;
+  /** Client-side rate limiting and concurrency limits. Requests over the limits are queued. */
+  rateLimiter?: RateLimiterOptions;
+  /** Fail fast with CircuitOpenError while the API keeps failing. Disabled when omitted. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Receives structured logs, with credentials and PII redacted */
+  logger?: Logger;
+  /** Minimum level passed to the logger. Defaults to 'info'. */
+  logLevel?: LogLevel;
+  /** Receives a span and a latency sample for every call. Defaults to a no-op. */
+  instrumentation?: Instrumentation;
+  /** Validate responses against the SDK's schemas and throw ResponseValidationError on mismatches */
+  strict?: boolean;
+  /** Parse response amounts into Money ('money') or leave them as JSON numbers ('number', the default) */
+  amounts?: 'number' | 'money';
+  /** Idle timeout for real-time subscriptions, in milliseconds */
+  streamIdleTimeout?: number;
 }
 
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 30000,
+  jitter: 0.2,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+};
+
+const IDEMPOTENT_METHODS: ReadonlyArray<RequestOptions['method']> = ['GET', 'PUT', 'DELETE'];
+const MUTATING_METHODS: ReadonlyArray<RequestOptions['method']> = ['POST', 'PUT', 'PATCH'];
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+// Business errors are identified by their APIError code, regardless of status
+const ERROR_CODE_CLASSES: Record<string, new (apiError: APIError) => APIErrorResponse> = {
+  insufficient_funds: InsufficientFundsError,
+  limit_exceeded: LimitExceededError,
+};
+
+const ERROR_STATUS_CLASSES: Record<number, { error: string; message: string; type: new (apiError: APIError) => APIErrorResponse }> = {
+  403: { error: 'permission_denied', message: 'Permission denied', type: PermissionDeniedError },
+  409: { error: 'conflict', message: 'Request conflicts with the current state of the resource', type: ConflictError },
+  422: { error: 'unprocessable_entity', message: 'Request failed validation', type: UnprocessableEntityError },
+};
+
 export interface ApiResponse<T = any> {
   data: T;
   status: number;
   headers: Record<string, string>;
 }
 
+/**
+ * Request/response interceptor. Middleware runs in registration order and
+ * may change the request before calling `next`, transform the response or
+ * error it returns, or short-circuit by resolving without calling `next`.
+ */
+export type Middleware = (
+  request: RequestOptions,
+  next: (request?: RequestOptions) => Promise<ApiResponse>
+) => Promise<ApiResponse>;
+
+/**
+ * A response whose body was read within the request's timeout
+ */
+interface ReceivedResponse {
+  response: globalThis.Response;
+  body: unknown;
+}
+
+/**
+ * Progress of a single SDK call across middleware and retries
+ */
+interface CallState {
+  attempts: number;
+}
+
 export class HttpClient {
   private readonly apiKey: string;
   private readonly baseURL: string;
   private readonly defaultTimeout: number;
+  private readonly retryOptions: RetryOptions | undefined;
+  private readonly onRateLimit: HttpClientOptions['onRateLimit'];
+  private readonly middleware: Middleware[];
+  private readonly transport: Required<Transport>;
+  private readonly traceContextProvider: HttpClientOptions['traceContext'];
+  private readonly rateLimiter: RateLimiter | undefined;
+  private readonly circuitBreaker: CircuitBreaker | undefined;
+  private readonly logger: Logger;
+  private readonly instrumentation: Instrumentation;
+  private readonly strict: boolean;
+  private readonly parseMoney: boolean;
+  private readonly streamIdleTimeout: number | undefined;
+  private requestDefaults: RequestConfig = {};
 
-  constructor(apiKey: string, baseURL: string, timeout: number = 30000) {
+  constructor(apiKey: string, baseURL: string, timeout: number = 30000, options: HttpClientOptions = {}) {
     this.apiKey = apiKey;
     this.baseURL = baseURL.replace(/\/$/, ''); // Remove trailing slash
     this.defaultTimeout = timeout;
+    this.retryOptions = options.retry;
+    this.onRateLimit = options.onRateLimit;
+    this.middleware = [...(options.middleware ?? [])];
+    this.transport = resolveTransport(options.transport);
+    this.traceContextProvider = options.traceContext;
+    this.rateLimiter = options.rateLimiter ? new RateLimiter(options.rateLimiter) : undefined;
+    this.logger = createLogger(options.logger, options.logLevel);
+    this.instrumentation = options.instrumentation ?? noopInstrumentation;
+    this.strict = options.strict ?? false;
+    this.parseMoney = options.amounts === 'money';
+    this.streamIdleTimeout = options.streamIdleTimeout;
+    this.circuitBreaker = options.circuitBreaker ? new CircuitBreaker({
+      probe: () => this.get(ROUTES.getHealth, undefined, undefined, { circuitBreaker: false }),
+      ...options.circuitBreaker,
+    }) : undefined;
   }
 
   /**
@@ -42,10 +241,79 @@ export class HttpClient {
     return this.baseURL;
   }
 
+  /**
+   * Get the transport used for REST requests and real-time subscriptions
+   */
+  getTransport(): Required<Transport> {
+    return this.transport;
+  }
+
+  /**
+   * Get the logger shared by REST requests and real-time subscriptions
+   */
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  /**
+   * Get the instrumentation shared by REST requests and real-time subscriptions
+   */
+  getInstrumentation(): Instrumentation {
+    return this.instrumentation;
+  }
+
+  /**
+   * Whether responses are validated against the SDK's schemas
+   */
+  isStrict(): boolean {
+    return this.strict;
+  }
+
+  /**
+   * Get the idle timeout for real-time subscriptions, if one is set
+   */
+  getStreamIdleTimeout(): number | undefined {
+    return this.streamIdleTimeout;
+  }
+
+  /**
+   * Open a real-time subscription with this client's API key, transport,
+   * logger and instrumentation
+   * @param path - The path of the event stream, relative to the base URL.
+   * @param options - Settings specific to this subscription, such as a backfill.
+   */
+  openStream(path: string, options: StreamConnectionOptions = {}): StreamConnection {
+    return new StreamConnection(new URL(`${this.baseURL}${path}`), this.apiKey, this.transport, {
+      logger: this.logger,
+      instrumentation: this.instrumentation,
+      strict: this.strict,
+      ...(this.streamIdleTimeout && { idleTimeout: this.streamIdleTimeout }),
+      ...options,
+    });
+  }
+
+  /**
+   * Register a middleware. It runs after all previously registered middleware.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Returns a view of this client that applies `config` to every request it makes.
+   * The view shares all connection state with this client.
+   */
+  withConfig(config: RequestConfig): HttpClient {
+    const scoped = Object.create(this) as HttpClient;
+    scoped.requestDefaults = { ...this.requestDefaults, ...config };
+    return scoped;
+  }
+
   /**
    * Make a GET request
    */
-  async get<T>(path: string, params?: Record<string, any>, headers?: Record<string, string>): Promise<T> {
+  get<T>(path: string, params?: Record<string, any>, headers?: Record<string, string>, config?: RequestConfig): ApiPromise<T> {
     let url = path;
     if (params && Object.keys(params).length > 0) {
       const queryParams = new URLSearchParams();
@@ -60,6 +328,7 @@ export class HttpClient {
       }
     }
     return this.request<T>({
+      ...config,
       method: 'GET',
       url,
       headers: headers || {},
@@ -69,8 +338,9 @@ export class HttpClient {
   /**
    * Make a POST request
    */
-  async post<T>(path: string, data?: any, headers?: Record<string, string>): Promise<T> {
+  post<T>(path: string, data?: any, headers?: Record<string, string>, config?: RequestConfig): ApiPromise<T> {
     return this.request<T>({
+      ...config,
       method: 'POST',
       url: path,
       data,
@@ -81,8 +351,9 @@ export class HttpClient {
   /**
    * Make a PUT request
    */
-  async put<T>(path: string, data?: any, headers?: Record<string, string>): Promise<T> {
+  put<T>(path: string, data?: any, headers?: Record<string, string>, config?: RequestConfig): ApiPromise<T> {
     return this.request<T>({
+      ...config,
       method: 'PUT',
       url: path,
       data,
@@ -93,8 +364,9 @@ export class HttpClient {
   /**
    * Make a DELETE request
    */
-  async delete<T>(path: string, headers?: Record<string, string>): Promise<T> {
+  delete<T>(path: string, headers?: Record<string, string>, config?: RequestConfig): ApiPromise<T> {
     return this.request<T>({
+      ...config,
       method: 'DELETE',
       url: path,
       headers: headers || {},
@@ -104,8 +376,9 @@ export class HttpClient {
   /**
    * Make a PATCH request
    */
-  async patch<T>(path: string, data?: any, headers?: Record<string, string>): Promise<T> {
+  patch<T>(path: string, data?: any, headers?: Record<string, string>, config?: RequestConfig): ApiPromise<T> {
     return this.request<T>({
+      ...config,
       method: 'PATCH',
       url: path,
       data,
@@ -116,92 +389,368 @@ export class HttpClient {
   /**
    * Internal request method that handles all HTTP requests
    */
-  private async request<T>(options: RequestOptions): Promise<T> {
-    const { method, url, data, headers = {}, timeout = this.defaultTimeout } = options;
+  private request<T>(requestOptions: RequestOptions): ApiPromise<T> {
+    const options = this.withTracing({ ...this.requestDefaults, ...requestOptions });
+    const correlationId = options.correlationId;
+
+    const circuitBreaker = options.circuitBreaker !== false ? this.circuitBreaker : undefined;
+    const response = this.instrument(options, async call => {
+      const result = await (circuitBreaker
+        ? circuitBreaker.run(() => this.dispatch<T>(options, call))
+        : this.dispatch<T>(options, call));
+      const checked = this.strict ? this.validateResponse(options, result) : result;
+      return this.parseMoney ? { ...checked, data: parseAmounts(checked.data) as T } : checked;
+    });
+
+    return ApiPromise.fromResponse(
+      response.catch(error => {
+        if (error instanceof QuicksilverError && error.correlationId === undefined && correlationId !== undefined) {
+          error.correlationId = correlationId;
+        }
+        throw error;
+      })
+    );
+  }
+
+  /**
+   * Report a call to the instrumentation as one span and a latency sample
+   */
+  private async instrument<T>(
+    options: RequestOptions,
+    send: (call: CallState) => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const route = getRouteTemplate(options.url);
+    const attributes: Attributes = {
+      'quicksilver.resource': route.split('/')[1] ?? '',
+      'http.request.method': options.method,
+      'http.route': route,
+    };
+    const span = this.instrumentation.startSpan(`${options.method} ${route}`, attributes);
+    const call: CallState = { attempts: 0 };
+    const startedAt = Date.now();
+
+    try {
+      const response = await send(call);
+      attributes['http.response.status_code'] = response.status;
+      return response;
+    } catch (error) {
+      if (error instanceof QuicksilverError && error.statusCode !== undefined) {
+        attributes['http.response.status_code'] = error.statusCode;
+      }
+      attributes['error.type'] = error instanceof Error ? error.name : 'Error';
+      span.recordError(error);
+      throw error;
+    } finally {
+      attributes['quicksilver.retry_count'] = Math.max(0, call.attempts - 1);
+      span.setAttributes(attributes);
+      span.end();
+      this.instrumentation.recordHistogram(REQUEST_DURATION_METRIC, (Date.now() - startedAt) / 1000, attributes);
+    }
+  }
+
+  /**
+   * Check a response against the schema of its route
+   */
+  private validateResponse<T>(options: RequestOptions, response: ApiResponse<T>): ApiResponse<T> {
+    const route = `${options.method} ${getRouteTemplate(options.url)}`;
+    const schema = RESPONSE_SCHEMAS[route];
+    const issues = schema ? validate(schema, response.data) : [];
+    if (issues.length === 0) {
+      return response;
+    }
+
+    const error = new ResponseValidationError(route, issues);
+    const requestId = findHeader(response.headers, 'x-request-id');
+    if (requestId) {
+      error.requestId = requestId;
+    }
+    throw error;
+  }
+
+  /**
+   * Run a request through the middleware pipeline
+   */
+  private dispatch<T>(options: RequestOptions, call: CallState): Promise<ApiResponse<T>> {
+    const run = (index: number, request: RequestOptions): Promise<ApiResponse> => {
+      const middleware = this.middleware[index];
+      if (!middleware) {
+        return this.execute(request, call);
+      }
+      return middleware(request, (next = request) => run(index + 1, next));
+    };
+    return run(0, options);
+  }
+
+  /**
+   * Execute a request, retrying transient failures according to the retry policy
+   */
+  private async execute<T>(requestOptions: RequestOptions, call: CallState): Promise<ApiResponse<T>> {
+    // The idempotency key is fixed before the first attempt so that
+    // every retry of the same call is deduplicated by the server
+    const options = this.withIdempotencyKey(requestOptions);
+    const retry = this.resolveRetryOptions(options);
+
+    for (let attempt = 1; ; attempt++) {
+      call.attempts++;
+      const canRetry = retry !== null && attempt < retry.maxAttempts;
+      let received: ReceivedResponse;
+
+      try {
+        received = await this.sendLimited(options);
+      } catch (error) {
+        if (!canRetry || !(error instanceof QuicksilverError) || error instanceof RequestAbortedError) {
+          throw error;
+        }
+        const delay = this.getBackoffDelay(retry, attempt);
+        this.logger.info(
+          { method: options.method, url: options.url, attempt, delayMs: Math.round(delay), error },
+          'Retrying request'
+        );
+        await sleep(delay, options.signal);
+        continue;
+      }
+
+      const { response } = received;
+      if (response.status === 429) {
+        this.notifyRateLimit(options, attempt, response);
+      }
+
+      if (!response.ok && canRetry && retry.retryableStatusCodes.includes(response.status)) {
+        const delay = this.getRetryDelay(retry, attempt, response);
+        if (delay !== undefined) {
+          this.logger.info(
+            { method: options.method, url: options.url, attempt, delayMs: Math.round(delay), status: response.status },
+            'Retrying request'
+          );
+          await sleep(delay, options.signal);
+          continue;
+        }
+      }
+
+      return this.handleResponse<T>(received);
+    }
+  }
+
+  /**
+   * Perform a single HTTP attempt once the rate limiter lets it through
+   */
+  private async sendLimited(options: RequestOptions): Promise<ReceivedResponse> {
+    if (!this.rateLimiter) {
+      return this.send(options);
+    }
+
+    const release = await this.rateLimiter.acquire(options.method, options.url, options.signal);
+    try {
+      const received = await this.send(options);
+      const { status, headers } = received.response;
+      this.rateLimiter.update(status, this.parseRateLimitHeaders(headers), this.parseRetryAfterHeader(headers));
+      return received;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Perform a single HTTP attempt
+   */
+  private async send(options: RequestOptions): Promise<ReceivedResponse> {
+    const { method, url, data, headers = {}, timeout = this.defaultTimeout, signal } = options;
 
     const fullURL = url.startsWith('http') ? url : `${this.baseURL}${url}`;
     
     const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
       'User-Agent': 'quicksilver-sdk/1.0.0',
-      ...headers,
     };
 
-    // Only add Authorization header if API key is provided
+    // Only add Authorization header if API key is provided.
+    // Explicit headers (e.g. from middleware) take precedence.
     if (this.apiKey) {
       requestHeaders['Authorization'] = `Bearer ${this.apiKey}`;
     }
+    Object.assign(requestHeaders, headers);
 
+    if (signal?.aborted) {
+      throw new RequestAbortedError(signal.reason);
+    }
+
+    const startedAt = Date.now();
+
+    // Combine the caller's signal with the timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let fetching = false;
 
     try {
+      const { body, contentType, streaming } = await encodeRequestBody(data, options.onUploadProgress);
+      if (signal?.aborted) {
+        throw new RequestAbortedError(signal.reason);
+      }
+
+      // Without a content type, fetch derives it, e.g. with the multipart boundary
+      if (contentType && !findHeader(headers, 'Content-Type')) {
+        requestHeaders['Content-Type'] = contentType;
+      }
+
       const fetchOptions: RequestInit = {
         method,
         headers: requestHeaders,
         signal: controller.signal,
       };
 
-      if (data !== undefined) {
-        fetchOptions.body = JSON.stringify(data);
+      if (body !== undefined) {
+        fetchOptions.body = body;
+      }
+      if (streaming) {
+        // Required by fetch implementations that support streaming request bodies
+        Object.assign(fetchOptions, { duplex: 'half' });
       }
 
-      const response = await fetch(fullURL, fetchOptions);
-
-      clearTimeout(timeoutId);
-
-      return await this.handleResponse<T>(response);
+      this.logger.debug(
+        { method, url: fullURL, headers: requestHeaders, body: describeBody(data) },
+        'HTTP request'
+      );
+      fetching = true;
+      const response = await this.transport.fetch(fullURL, fetchOptions);
+      // Read the body before the timeout is cleared, so that a stalled,
+      // broken or malformed body fails, and is retried, like the request
+      const received = { response, body: await readBody(response) };
+      this.logger.debug(
+        { method, url: fullURL, status: response.status, durationMs: Date.now() - startedAt, correlationId: options.correlationId },
+        'HTTP response'
+      );
+      return received;
     } catch (error) {
+      if (signal?.aborted) {
+        throw new RequestAbortedError(signal.reason);
+      }
+      this.logger.warn(
+        { method, url: fullURL, durationMs: Date.now() - startedAt, correlationId: options.correlationId, error },
+        'HTTP request failed'
+      );
+      // Only failures of the request itself are network errors; local ones, such as
+      // a body that can't be encoded, are rethrown unchanged and never retried
+      throw fetching ? this.handleRequestError(error) : error;
+    } finally {
       clearTimeout(timeoutId);
-      throw this.handleRequestError(error);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
-   * Handle the response and parse the data
+   * Attach the correlation ID and trace context headers
    */
-  private async handleResponse<T>(response: globalThis.Response): Promise<T> {
-    const contentType = response.headers.get('content-type');
-    const isJson = contentType?.includes('application/json');
+  private withTracing(options: RequestOptions): RequestOptions {
+    const existing = findHeader(options.headers, CORRELATION_ID_HEADER);
+    const correlationId = existing ?? options.correlationId ?? generateId();
+    const traceContext = options.traceContext ?? this.traceContextProvider?.();
+    const headers: Record<string, string> = existing ? {} : { [CORRELATION_ID_HEADER]: correlationId };
 
-    if (!response.ok) {
-      let errorData: APIError | null = null;
-      
-      try {
-        if (isJson) {
-          errorData = await response.json();
-        }
-      } catch {
-        // If we can't parse the error response, we'll use a generic error
+    if (traceContext) {
+      headers['traceparent'] = traceContext.traceparent;
+      if (traceContext.tracestate) {
+        headers['tracestate'] = traceContext.tracestate;
       }
+    }
+
+    return { ...options, correlationId, headers: { ...headers, ...options.headers } };
+  }
+
+  /**
+   * Attach an Idempotency-Key header to mutating requests that don't carry one
+   */
+  private withIdempotencyKey(options: RequestOptions): RequestOptions {
+    if (!MUTATING_METHODS.includes(options.method) || findHeader(options.headers, IDEMPOTENCY_KEY_HEADER)) {
+      return options;
+    }
+
+    return {
+      ...options,
+      headers: {
+        ...options.headers,
+        [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey ?? generateId(),
+      },
+    };
+  }
+
+  /**
+   * Resolve the effective retry policy for a request.
+   * Returns null when the request must not be retried.
+   */
+  private resolveRetryOptions(options: RequestOptions): Required<RetryOptions> | null {
+    if (options.retry === false || (!options.retry && !this.retryOptions)) {
+      return null;
+    }
+
+    // A stream body is consumed by the first attempt
+    if (isReadableStream(options.data)) {
+      return null;
+    }
 
-      throw this.createErrorFromResponse(response.status, errorData);
+    // Replaying a non-idempotent request could apply it twice, unless the
+    // server can deduplicate it by its idempotency key
+    if (!IDEMPOTENT_METHODS.includes(options.method) && !findHeader(options.headers, IDEMPOTENCY_KEY_HEADER)) {
+      return null;
     }
 
-    if (response.status === 204) {
-      // No content
-      return {} as T;
+    return { ...DEFAULT_RETRY_OPTIONS, ...this.retryOptions, ...options.retry };
+  }
+
+  /**
+   * Calculate the delay before retrying a failed response.
+   * Honors Retry-After, and returns undefined when the server asks us
+   * to wait longer than the policy allows.
+   */
+  private getRetryDelay(retry: Required<RetryOptions>, attempt: number, response: globalThis.Response): number | undefined {
+    const retryAfter = this.parseRetryAfterHeader(response.headers);
+    if (retryAfter === undefined) {
+      return this.getBackoffDelay(retry, attempt);
     }
+    return retryAfter <= retry.maxDelay ? retryAfter : undefined;
+  }
+
+  /**
+   * Exponential backoff with jitter
+   */
+  private getBackoffDelay(retry: Required<RetryOptions>, attempt: number): number {
+    const delay = Math.min(retry.baseDelay * 2 ** (attempt - 1), retry.maxDelay);
+    return delay * (1 - retry.jitter * Math.random());
+  }
 
-    if (isJson) {
-      return await response.json();
+  /**
+   * Turn a response into its data, or into the error it reports
+   */
+  private handleResponse<T>({ response, body }: ReceivedResponse): ApiResponse<T> {
+    if (!response.ok) {
+      // If we can't parse the error response, we'll use a generic error
+      throw this.createErrorFromResponse(response, isJson(response) ? body as APIError | null : null);
     }
 
-    return await response.text() as T;
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    // No content
+    const data = (response.status === 204 ? {} : body) as T;
+    return { data, status: response.status, headers };
   }
 
   /**
    * Handle request errors (network, timeout, etc.)
    */
   private handleRequestError(error: unknown): QuicksilverError {
+    if (error instanceof QuicksilverError) {
+      return error;
+    }
+
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
         return new NetworkError('Request timeout');
       }
       
-      if (error.message.includes('fetch')) {
-        return new NetworkError('Network error', error);
-      }
+      return new NetworkError('Network error', error);
     }
 
     return new NetworkError('Unknown network error');
@@ -210,7 +759,41 @@ export class HttpClient {
   /**
    * Create appropriate error based on HTTP status code
    */
-  private createErrorFromResponse(statusCode: number, apiError?: APIError | null): QuicksilverError {
+  private createErrorFromResponse(response: globalThis.Response, apiError?: APIError | null): QuicksilverError {
+    const error = this.createErrorFromStatus(response, apiError);
+    const requestId = response.headers.get('x-request-id');
+    if (requestId) {
+      error.requestId = requestId;
+    }
+    return error;
+  }
+
+  /**
+   * Map an HTTP status code to the matching error class
+   */
+  private createErrorFromStatus(response: globalThis.Response, apiError?: APIError | null): QuicksilverError {
+    const statusCode = response.status;
+
+    if (statusCode === 429) {
+      return new RateLimitError(
+        apiError?.message ?? 'Rate limit exceeded',
+        this.getRetryAfterSeconds(response.headers),
+        this.parseRateLimitHeaders(response.headers)
+      );
+    }
+
+    const codeClass = apiError ? ERROR_CODE_CLASSES[apiError.error] : undefined;
+    if (apiError && codeClass) {
+      return new codeClass({ ...apiError, status_code: apiError.status_code ?? statusCode });
+    }
+
+    const statusClass = ERROR_STATUS_CLASSES[statusCode];
+    if (statusClass) {
+      // Synthesize the error body when the server didn't send one
+      const body = apiError ?? { error: statusClass.error, message: statusClass.message, status_code: statusCode };
+      return new statusClass.type({ ...body, status_code: body.status_code ?? statusCode });
+    }
+
     if (apiError) {
       return new APIErrorResponse(apiError);
     }
@@ -222,9 +805,6 @@ export class HttpClient {
         return new AuthenticationError();
       case 404:
         return new NotFoundError('Resource');
-      case 429:
-        const retryAfter = this.parseRetryAfterHeader();
-        return new RateLimitError('Rate limit exceeded', retryAfter);
       case 500:
       case 502:
       case 503:
@@ -236,11 +816,139 @@ export class HttpClient {
   }
 
   /**
-   * Parse Retry-After header for rate limiting
+   * Report a rate-limited response to the onRateLimit hook
+   */
+  private notifyRateLimit(options: RequestOptions, attempt: number, response: globalThis.Response): void {
+    if (!this.onRateLimit) {
+      return;
+    }
+
+    const event: RateLimitEvent = {
+      method: options.method,
+      url: options.url,
+      attempt,
+      rateLimit: this.parseRateLimitHeaders(response.headers),
+    };
+    const retryAfter = this.getRetryAfterSeconds(response.headers);
+    if (retryAfter !== undefined) {
+      event.retryAfter = retryAfter;
+    }
+    this.onRateLimit(event);
+  }
+
+  /**
+   * Parse the X-RateLimit-* headers
+   */
+  private parseRateLimitHeaders(headers: Headers): RateLimitInfo {
+    const info: RateLimitInfo = {};
+    const fields: Array<[keyof RateLimitInfo, string]> = [
+      ['limit', 'x-ratelimit-limit'],
+      ['remaining', 'x-ratelimit-remaining'],
+      ['reset', 'x-ratelimit-reset'],
+    ];
+
+    for (const [field, header] of fields) {
+      const value = Number(headers.get(header) ?? NaN);
+      if (Number.isFinite(value)) {
+        info[field] = value;
+      }
+    }
+    return info;
+  }
+
+  /**
+   * Retry-After in whole seconds, as exposed on errors and hooks
    */
-  private parseRetryAfterHeader(): number | undefined {
-    // This would need to be implemented if we have access to response headers
-    // For now, return undefined
+  private getRetryAfterSeconds(headers: Headers): number | undefined {
+    const retryAfter = this.parseRetryAfterHeader(headers);
+    return retryAfter !== undefined ? Math.ceil(retryAfter / 1000) : undefined;
+  }
+
+  /**
+   * Parse the Retry-After header into milliseconds.
+   * Supports both the delta-seconds and the HTTP-date forms.
+   */
+  private parseRetryAfterHeader(headers: Headers): number | undefined {
+    const value = headers.get('retry-after')?.trim();
+    if (!value) {
+      return undefined;
+    }
+
+    if (/^\d+$/.test(value)) {
+      return Number(value) * 1000;
+    }
+
+    const date = Date.parse(value);
+    if (Number.isNaN(date)) {
+      return undefined;
+    }
+    return Math.max(0, date - Date.now());
+  }
+}
+
+function isJson(response: globalThis.Response): boolean {
+  return response.headers.get('content-type')?.includes('application/json') ?? false;
+}
+
+/**
+ * Read a response body, parsing it if it is JSON. Error bodies that aren't
+ * valid JSON are read as null, so that the status alone decides the error.
+ */
+async function readBody(response: globalThis.Response): Promise<unknown> {
+  if (response.status === 204) {
     return undefined;
   }
-} 
\ No newline at end of file
+  const text = await response.text();
+  if (!isJson(response)) {
+    return text;
+  }
+  if (!response.ok) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return null;
+    }
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * Apply per-call request config, leaving the client untouched when there is none
+ */
+export function withRequestConfig(http: HttpClient, config?: RequestConfig): HttpClient {
+  return config ? http.withConfig(config) : http;
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const key = Object.keys(headers ?? {}).find(header => header.toLowerCase() === name.toLowerCase());
+  return key !== undefined ? headers?.[key] : undefined;
+}
+
+/**
+ * A random ID, used for idempotency keys and correlation IDs
+ */
+export function generateId(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new RequestAbortedError(signal?.reason));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -15,6 +15,10 @@ export { Action, ActionBuilder } from './builders/action';
 // Core types and enums
 export { QuickSilverEvent } from './types';
 
+// Money
+export { Money, CURRENCY_PRECISION } from './money';
+export type { RoundingMode, MoneyJSON, MoneyFormatOptions } from './money';
+
 // Resource classes (for advanced usage)
 export { AccountsResource } from './resources/accounts';
 export { TransactionsResource } from './resources/transactions';
@@ -22,21 +26,46 @@ export { StreamsResource } from './resources/streams';
 export { AdminResource } from './resources/admin';
 export { GatewaysResource } from './resources/gateways';
 export { KycResource } from './resources/kyc';
-export type { KycInitiatePayload, KycStatus, KycInitiateResponse } from './resources/kyc';
+export type { KycInitiatePayload, KycStatus, KycInitiateResponse, KycDocumentMetadata } from './resources/kyc';
 
 // Real-time functionality
 export { StreamConnection } from './realtime/sse';
+export type { StreamConnectionOptions, StreamGap, StreamStats } from './realtime/sse';
+export { EventIterator } from './realtime/event-iterator';
+export { SubscriptionManager, StreamSubscription } from './realtime/subscription-manager';
+export type { ConnectionFactory, SubscribeOptions } from './realtime/subscription-manager';
+export { StreamMeter } from './realtime/stream-meter';
+export type { StreamMeterOptions, MeterState } from './realtime/stream-meter';
+export type {
+  StreamEvent,
+  StreamEventMessage,
+  BatchCreatedMessage,
+  HeartbeatMessage,
+  UnknownMessage,
+  EventIteratorOptions,
+  OverflowPolicy,
+} from './realtime/event-iterator';
 
 // Error classes
 export {
   QuicksilverError,
   APIErrorResponse,
   NetworkError,
+  RequestAbortedError,
   AuthenticationError,
+  PermissionDeniedError,
+  ConflictError,
+  UnprocessableEntityError,
+  InsufficientFundsError,
+  LimitExceededError,
   NotFoundError,
   ValidationError,
   RateLimitError,
   ServerError,
+  CircuitOpenError,
+  ResponseValidationError,
+  CurrencyMismatchError,
+  EventBufferOverflowError,
 } from './errors';
 
 // Type definitions
@@ -49,15 +78,18 @@ export type {
   TransactionType,
   TransactionState,
   StreamRateUnit,
+  Amount,
   Currency,
   
   // API payloads
   CreateAccountPayload,
   CreateTransactionPayload,
   CreateStreamingTransactionPayload,
+  UsageReport,
   
   // API responses
   StatusResponse,
+  UsageReportResponse,
   
   // Real-time events
   SSEStreamEvent,
@@ -65,12 +97,60 @@ export type {
   
   // Error types
   APIError,
+  FieldError,
+  RateLimitInfo,
   
   // Pagination
   PaginationParams,
   PaginatedResponse,
 } from './types';
 
+// Transport (for advanced usage)
+export type { Transport, FetchFunction } from './transport';
+
+// Response validation
+export {
+  accountSchema,
+  transactionSchema,
+  streamingTransactionSchema,
+  paginatedResponseSchema,
+  sseStreamEventSchema,
+  sseBatchCreatedEventSchema,
+} from './schemas';
+export { validate } from './validation';
+export type { Schema, ValidationIssue } from './validation';
+
+// Instrumentation
+export { noopInstrumentation, REQUEST_DURATION_METRIC, SSE_EVENTS_METRIC } from './instrumentation';
+export type { Instrumentation, InstrumentationSpan, Attributes, AttributeValue } from './instrumentation';
+
+// Logging
+export type { Logger, LogLevel } from './logger';
+
+// Request bodies
+export type { UploadProgressEvent } from './request-body';
+
+// Client-side rate limiting
+export type { RateLimiterOptions, LimitOptions, RouteGroup, QueueEvent } from './rate-limiter';
+
+// Circuit breaker
+export type { CircuitBreakerOptions, CircuitState, CircuitStateChangeEvent } from './circuit-breaker';
+
+// Usage reporting
+export { UsageAggregator } from './usage-aggregator';
+export type { UsageAggregatorOptions } from './usage-aggregator';
+
 // HTTP client (for advanced usage)
 export { HttpClient } from './http';
-export type { RequestOptions, ApiResponse } from './http'; 
\ No newline at end of file
+export { ApiPromise } from './api-promise';
+export { PagePromise } from './pagination';
+export type {
+  RequestOptions,
+  RequestConfig,
+  RetryOptions,
+  RateLimitEvent,
+  Middleware,
+  TraceContext,
+  HttpClientOptions,
+  ApiResponse,
+} from './http'; 
\ No newline at end of file
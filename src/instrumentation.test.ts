@@ -0,0 +1,21 @@
+import { describe, it, expect } from "bun:test";
+import { getRouteTemplate } from "./instrumentation";
+
+describe("getRouteTemplate", () => {
+  it("should replace IDs with placeholders", () => {
+    expect(getRouteTemplate("/transactions/txn_123/execute")).toBe("/transactions/{id}/execute");
+    expect(getRouteTemplate("/accounts/acc_1/children?page=2")).toBe("/accounts/{id}/children");
+    expect(getRouteTemplate("/kyc/status/acc_1")).toBe("/kyc/status/{id}");
+  });
+
+  it("should treat any segment after a collection as an ID", () => {
+    expect(getRouteTemplate("/transactions/txn_1/gateways/stripe/execute"))
+      .toBe("/transactions/{id}/gateways/{id}/execute");
+  });
+
+  it("should keep static routes unchanged", () => {
+    expect(getRouteTemplate("/admin/accounts")).toBe("/admin/accounts");
+    expect(getRouteTemplate("/accounts/acc_1/reject-verification")).toBe("/accounts/{id}/reject-verification");
+    expect(getRouteTemplate("https://api.quicksilver.com/openapi.json")).toBe("/openapi.json");
+  });
+});
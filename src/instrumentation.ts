@@ -0,0 +1,80 @@
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue>;
+
+/**
+ * Bridge to a tracing and metrics backend such as OpenTelemetry or Prometheus.
+ * The SDK has no dependency on either; an adapter maps these calls onto them.
+ * @example
+ * const tracer = trace.getTracer('quicksilver');
+ * const meter = metrics.getMeter('quicksilver');
+ * const instrumentation: Instrumentation = {
+ *   startSpan: (name, attributes) => {
+ *     const span = tracer.startSpan(name, { kind: SpanKind.CLIENT, attributes });
+ *     return {
+ *       setAttributes: attrs => span.setAttributes(attrs),
+ *       recordError: error => span.setStatus({ code: SpanStatusCode.ERROR, message: String(error) }),
+ *       end: () => span.end(),
+ *     };
+ *   },
+ *   recordHistogram: (name, value, attributes) => meter.createHistogram(name).record(value, attributes),
+ *   incrementCounter: (name, value, attributes) => meter.createCounter(name).add(value, attributes),
+ * };
+ */
+export interface Instrumentation {
+  /** Start a span for one SDK call */
+  startSpan(name: string, attributes: Attributes): InstrumentationSpan;
+  recordHistogram(name: string, value: number, attributes: Attributes): void;
+  incrementCounter(name: string, value: number, attributes: Attributes): void;
+}
+
+export interface InstrumentationSpan {
+  setAttributes(attributes: Attributes): void;
+  /** Mark the span as failed */
+  recordError(error: unknown): void;
+  end(): void;
+}
+
+/** Duration of each SDK call in seconds, including retries */
+export const REQUEST_DURATION_METRIC = 'quicksilver.client.request.duration';
+/** Number of Server-Sent Events received, by event type */
+export const SSE_EVENTS_METRIC = 'quicksilver.client.sse.events';
+
+const NOOP_SPAN: InstrumentationSpan = {
+  setAttributes: () => undefined,
+  recordError: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Default instrumentation that records nothing
+ */
+export const noopInstrumentation: Instrumentation = {
+  startSpan: () => NOOP_SPAN,
+  recordHistogram: () => undefined,
+  incrementCounter: () => undefined,
+};
+
+// Collections whose next path segment is an ID
+const ID_COLLECTIONS = new Set(['accounts', 'transactions', 'streams', 'gateways', 'status']);
+
+// Fixed path segments are lowercase words, e.g. `reject-verification` or `openapi.json`
+const STATIC_SEGMENT = /^[a-z]+(?:[-.][a-z]+)*$/;
+
+/**
+ * Replace the IDs in a request path with placeholders to get a low-cardinality
+ * route, e.g. `/transactions/txn_123/execute` becomes `/transactions/{id}/execute`
+ */
+export function getRouteTemplate(url: string): string {
+  const path = (/^https?:\/\//.test(url) ? new URL(url).pathname : url).split('?')[0] ?? '';
+  const segments = path.split('/');
+
+  return segments
+    .map((segment, index) => {
+      const previous = segments[index - 1];
+      if (!segment || (STATIC_SEGMENT.test(segment) && !(previous && ID_COLLECTIONS.has(previous)))) {
+        return segment;
+      }
+      return '{id}';
+    })
+    .join('/');
+}
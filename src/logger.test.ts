@@ -0,0 +1,60 @@
+import { describe, it, expect, mock } from "bun:test";
+import { createLogger, redact } from "./logger";
+
+function fakeLogger() {
+  return { debug: mock(() => {}), info: mock(() => {}), warn: mock(() => {}), error: mock(() => {}) };
+}
+
+describe("createLogger", () => {
+  it("should drop messages below the configured level", () => {
+    const target = fakeLogger();
+    const logger = createLogger(target, "warn");
+
+    logger.info({ step: 1 }, "ignored");
+    logger.warn({ step: 2 }, "kept");
+
+    expect(target.info).not.toHaveBeenCalled();
+    expect(target.warn).toHaveBeenCalledWith({ step: 2 }, "kept");
+  });
+
+  it("should log nothing without a logger or at the silent level", () => {
+    const target = fakeLogger();
+
+    createLogger().error({}, "nowhere");
+    createLogger(target, "silent").error({}, "nowhere");
+
+    expect(target.error).not.toHaveBeenCalled();
+  });
+
+  it("should redact fields before logging", () => {
+    const target = fakeLogger();
+
+    createLogger(target, "debug").debug({ headers: { Authorization: "Bearer sk_live_123" } }, "HTTP request");
+
+    expect(target.debug).toHaveBeenCalledWith({ headers: { Authorization: "[REDACTED]" } }, "HTTP request");
+  });
+});
+
+describe("redact", () => {
+  it("should redact KYC PII at any depth", () => {
+    const result = redact({
+      body: { first_name: "Jane", date_of_birth: "1990-01-01", documents: [{ document_number: "X123" }] },
+    });
+
+    expect(result).toEqual({
+      body: { first_name: "Jane", date_of_birth: "[REDACTED]", documents: [{ document_number: "[REDACTED]" }] },
+    });
+  });
+
+  it("should redact API keys in URLs and bearer tokens in strings", () => {
+    expect(redact("https://api.quicksilver.com/sse/streams/s_1?api_key=sk_live_123&x=1"))
+      .toBe("https://api.quicksilver.com/sse/streams/s_1?api_key=[REDACTED]&x=1");
+    expect(redact(new URL("https://api.quicksilver.com/sse?api_key=sk_live_123")))
+      .toBe("https://api.quicksilver.com/sse?api_key=[REDACTED]");
+    expect(redact("auth failed for Bearer sk_live_123")).toBe("auth failed for Bearer [REDACTED]");
+  });
+
+  it("should reduce errors to their name and message", () => {
+    expect(redact(new TypeError("fetch failed"))).toEqual({ name: "TypeError", message: "fetch failed" });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Minimal logger interface, satisfied by pino, bunyan-style loggers and `console`.
+ * Structured fields come first and the message second, as in pino.
+ */
+export interface Logger {
+  debug(fields: Record<string, unknown>, message?: string): void;
+  info(fields: Record<string, unknown>, message?: string): void;
+  warn(fields: Record<string, unknown>, message?: string): void;
+  error(fields: Record<string, unknown>, message?: string): void;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+const REDACTED = '[REDACTED]';
+
+// Matched case-insensitively against object keys at any depth
+const REDACTED_KEYS = new Set(['authorization', 'api_key', 'document_number', 'date_of_birth']);
+
+const REDACTED_PATTERNS: Array<[RegExp, string]> = [
+  [/([?&]api_key=)[^&#\s]*/gi, `$1${REDACTED}`],
+  [/(Bearer\s+)[^\s"',]+/gi, `$1${REDACTED}`],
+];
+
+const NOOP = () => undefined;
+
+/**
+ * Wrap a user-supplied logger so that it only receives messages at or above
+ * `level`, with credentials and PII redacted from every field
+ */
+export function createLogger(logger?: Logger, level: LogLevel = 'info'): Logger {
+  const threshold = LOG_LEVELS[level];
+  const method = (name: Exclude<LogLevel, 'silent'>) => {
+    if (!logger || LOG_LEVELS[name] < threshold) {
+      return NOOP;
+    }
+    return (fields: Record<string, unknown>, message?: string) => {
+      logger[name](redact(fields) as Record<string, unknown>, message);
+    };
+  };
+
+  return {
+    debug: method('debug'),
+    info: method('info'),
+    warn: method('warn'),
+    error: method('error'),
+  };
+}
+
+/**
+ * Deep-copy a value, replacing secrets and PII with a placeholder
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return REDACTED_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+  }
+
+  if (value instanceof URL) {
+    return redact(value.toString());
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message) };
+  }
+
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      result[key] = REDACTED_KEYS.has(key.toLowerCase()) ? REDACTED : redact(field);
+    }
+    return result;
+  }
+
+  return value;
+}
@@ -1,6 +1,9 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
 import { Account as AccountData, Transaction as TransactionData, CreateAccountPayload } from '../types';
+import type { Amount } from '../types';
 import { Transaction } from './transaction';
+import { ROUTES, buildPath } from '../routes';
 import { Product } from '../builders/product';
 
 export class Account {
@@ -50,7 +53,7 @@ export class Account {
   /**
    * Delegates a new sub-agent from this account.
    */
-  async delegate(options: { name: string, limits: { daily: number } }): Promise<Account> {
+  async delegate(options: { name: string, limits: { daily: number } }, config?: RequestConfig): Promise<Account> {
     const payload: CreateAccountPayload = {
       name: options.name,
       account_type: 'AgentDelegated',
@@ -58,7 +61,7 @@ export class Account {
       limits: options.limits
     };
 
-    const subAccountData = await this.http.post<AccountData>('/accounts', payload);
+    const subAccountData = await withRequestConfig(this.http, config).post<AccountData>(ROUTES.createAccount, payload);
     return new Account(subAccountData, this.http);
   }
 
@@ -82,8 +85,8 @@ export class Account {
   /**
    * Purchase a programmable product.
    */
-  async purchase(product: Product, options: { [key: string]: any }): Promise<Transaction> {
-    const txData = await this.http.post<TransactionData>(`/accounts/${this.id}/purchase`, {
+  async purchase(product: Product, options: { [key: string]: any }, config?: RequestConfig): Promise<Transaction> {
+    const txData = await withRequestConfig(this.http, config).post<TransactionData>(buildPath(ROUTES.purchaseProduct, { id: this.id }), {
       productId: product.id,
       options,
     });
@@ -93,32 +96,32 @@ export class Account {
   /**
    * Refresh the account's data from the server.
    */
-  async refresh(): Promise<this> {
-    this.data = await this.http.get<AccountData>(`/accounts/${this.id}`);
+  async refresh(config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).get<AccountData>(buildPath(ROUTES.retrieveAccount, { id: this.id }));
     return this;
   }
 
   /**
    * Get child accounts (delegated sub-agents).
    */
-  async getChildren(): Promise<Account[]> {
-    const childrenData = await this.http.get<AccountData[]>(`/accounts/${this.id}/children`);
+  async getChildren(config?: RequestConfig): Promise<Account[]> {
+    const childrenData = await withRequestConfig(this.http, config).get<AccountData[]>(buildPath(ROUTES.listChildAccounts, { id: this.id }));
     return childrenData.map(data => new Account(data, this.http));
   }
 
   /**
    * Update account limits.
    */
-  async updateLimits(limits: { daily?: number; per_transaction?: number; total?: number }): Promise<this> {
-    this.data = await this.http.patch<AccountData>(`/accounts/${this.id}`, { limits });
+  async updateLimits(limits: { daily?: number; per_transaction?: number; total?: number }, config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).patch<AccountData>(buildPath(ROUTES.patchAccount, { id: this.id }), { limits });
     return this;
   }
 
   /**
    * Get account balance (if supported by the API).
    */
-  async getBalance(): Promise<{ amount: number; currency: string }> {
-    const balance = await this.http.get<{ amount: number; currency: string }>(`/accounts/${this.id}/balance`);
+  async getBalance(config?: RequestConfig): Promise<{ amount: Amount; currency: string }> {
+    const balance = await withRequestConfig(this.http, config).get<{ amount: Amount; currency: string }>(buildPath(ROUTES.getAccountBalance, { id: this.id }));
     return balance;
   }
 
@@ -143,7 +146,7 @@ export class Account {
     document_type: string;
     document_number: string;
     document_file?: File | Blob;
-  }): Promise<this> {
+  }, config?: RequestConfig): Promise<this> {
     const formData = new FormData();
     formData.append('document_type', kycData.document_type);
     formData.append('document_number', kycData.document_number);
@@ -152,15 +155,15 @@ export class Account {
       formData.append('document_file', kycData.document_file);
     }
 
-    this.data = await this.http.post<AccountData>(`/accounts/${this.id}/kyc`, formData);
+    this.data = await withRequestConfig(this.http, config).post<AccountData>(buildPath(ROUTES.submitKycDocument, { id: this.id }), formData);
     return this;
   }
 
   /**
    * Verify the account (admin function - requires special permissions).
    */
-  async verify(verifiedBy: string): Promise<this> {
-    this.data = await this.http.post<AccountData>(`/accounts/${this.id}/verify`, {
+  async verify(verifiedBy: string, config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).post<AccountData>(buildPath(ROUTES.verifyAccount, { id: this.id }), {
       verified_by: verifiedBy,
       verified_at: new Date().toISOString()
     });
@@ -170,8 +173,8 @@ export class Account {
   /**
    * Reject verification (admin function - requires special permissions).
    */
-  async rejectVerification(reason: string): Promise<this> {
-    this.data = await this.http.post<AccountData>(`/accounts/${this.id}/reject-verification`, {
+  async rejectVerification(reason: string, config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).post<AccountData>(buildPath(ROUTES.rejectAccountVerification, { id: this.id }), {
       reason,
       rejected_at: new Date().toISOString()
     });
@@ -212,6 +212,21 @@ describe("Transaction Model", () => {
     });
   });
 
+  describe("subscribe()", () => {
+    it("should authenticate with the client's API key", async () => {
+      const fetch = mock(() => Promise.resolve(new Response("", { headers: { "content-type": "text/event-stream" } })));
+      const http = new HttpClient("test-api-key", "https://test.api.com", 30000, { transport: { fetch } });
+
+      const connection = new Transaction(transactionData, http).subscribe();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      connection.close();
+
+      const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toBe("https://test.api.com/sse/transactions/txn_123");
+      expect((init.headers as Record<string, string>)["Authorization"]).toBe("Bearer test-api-key");
+    });
+  });
+
   describe("cancel()", () => {
     it("should cancel the transaction", async () => {
       const cancelledData = {
@@ -1,7 +1,13 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
 import { Transaction as TransactionData } from '../types';
+import type { Amount } from '../types';
+import { Money } from '../money';
 import { ConditionBuilder } from '../builders/condition';
-import { StreamConnection } from '../realtime/sse';
+import type { StreamConnection } from '../realtime/sse';
+import { EventIterator } from '../realtime/event-iterator';
+import type { EventIteratorOptions } from '../realtime/event-iterator';
+import { ROUTES, buildPath } from '../routes';
 
 export class Transaction {
   public readonly id: string;
@@ -20,7 +26,12 @@ export class Transaction {
   }
 
   get amount(): number {
-    return this.data.amount;
+    return Money.isMoney(this.data.amount) ? this.data.amount.toNumber() : this.data.amount;
+  }
+
+  /** The amount as an exact Money value */
+  get money(): Money {
+    return Money.isMoney(this.data.amount) ? this.data.amount : Money.of(this.data.amount, this.data.currency);
   }
 
   get currency(): string {
@@ -70,16 +81,17 @@ export class Transaction {
   /**
    * Execute the transaction.
    */
-  async execute(gatewayId?: string): Promise<this> {
+  async execute(gatewayId?: string, config?: RequestConfig): Promise<this> {
     const currentState = this.data.state || this.data.status;
     if (currentState && currentState !== 'Draft' && currentState !== 'pending') {
       throw new Error(`Cannot execute transaction in state: ${currentState}`);
     }
 
+    const http = withRequestConfig(this.http, config);
     if (gatewayId) {
-      this.data = await this.http.post<TransactionData>(`/transactions/${this.id}/gateway/execute`, { gatewayId });
+      this.data = await http.post<TransactionData>(buildPath(ROUTES.executeTransactionViaGateway, { id: this.id }), { gatewayId });
     } else {
-      this.data = await this.http.post<TransactionData>(`/transactions/${this.id}/execute`);
+      this.data = await http.post<TransactionData>(buildPath(ROUTES.executeTransaction, { id: this.id }));
     }
     return this;
   }
@@ -87,22 +99,22 @@ export class Transaction {
   /**
    * Cancel the transaction.
    */
-  async cancel(): Promise<this> {
+  async cancel(config?: RequestConfig): Promise<this> {
     const currentState = this.data.state || this.data.status;
     if (currentState === 'Completed' || currentState === 'completed' || 
         currentState === 'Failed' || currentState === 'failed') {
       throw new Error(`Cannot cancel transaction in state: ${currentState}`);
     }
 
-    this.data = await this.http.post<TransactionData>(`/transactions/${this.id}/cancel`);
+    this.data = await withRequestConfig(this.http, config).post<TransactionData>(buildPath(ROUTES.cancelTransaction, { id: this.id }));
     return this;
   }
 
   /**
    * Trigger an event on this transaction (for conditional logic).
    */
-  async triggerEvent(event: string, context: any = {}): Promise<this> {
-    this.data = await this.http.post<TransactionData>(`/transactions/${this.id}/trigger`, {
+  async triggerEvent(event: string, context: any = {}, config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).post<TransactionData>(buildPath(ROUTES.triggerTransactionEvent, { id: this.id }), {
       event,
       context
     });
@@ -112,26 +124,26 @@ export class Transaction {
   /**
    * Get the cost of this transaction.
    */
-  async getCost(): Promise<number> {
+  async getCost(config?: RequestConfig): Promise<number> {
     // For simple transactions, return the amount
     if (this.data.transaction_type === 'Payment' || this.data.transaction_type === 'Escrow') {
-      return this.data.amount;
+      return this.amount;
     }
 
     // For streaming transactions, calculate based on duration
     if (this.data.transaction_type === 'Stream') {
-      const streamInfo = await this.http.get<any>(`/transactions/${this.id}/stream-info`);
-      return streamInfo.accumulated || 0;
+      const streamInfo = await withRequestConfig(this.http, config).get<any>(buildPath(ROUTES.getTransactionStreamInfo, { id: this.id }));
+      return Number(streamInfo.accumulated || 0);
     }
 
-    return this.data.amount;
+    return this.amount;
   }
 
   /**
    * Refresh the transaction's data from the server.
    */
-  async refresh(): Promise<this> {
-    this.data = await this.http.get<TransactionData>(`/transactions/${this.id}`);
+  async refresh(config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).get<TransactionData>(buildPath(ROUTES.retrieveTransaction, { id: this.id }));
     return this;
   }
 
@@ -154,8 +166,8 @@ export class Transaction {
   /**
    * Get child transactions (for complex transactions with sub-transactions).
    */
-  async getChildren(): Promise<Transaction[]> {
-    const childrenData = await this.http.get<TransactionData[]>(`/transactions/${this.id}/children`);
+  async getChildren(config?: RequestConfig): Promise<Transaction[]> {
+    const childrenData = await withRequestConfig(this.http, config).get<TransactionData[]>(buildPath(ROUTES.listChildTransactions, { id: this.id }));
     return childrenData.map(data => new Transaction(data, this.http));
   }
 
@@ -177,8 +189,8 @@ export class Transaction {
   /**
    * Update transaction metadata.
    */
-  async updateMeta(meta: Record<string, any>): Promise<this> {
-    this.data = await this.http.patch<TransactionData>(`/transactions/${this.id}`, { meta });
+  async updateMeta(meta: Record<string, any>, config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).patch<TransactionData>(buildPath(ROUTES.patchTransaction, { id: this.id }), { meta });
     return this;
   }
 
@@ -186,9 +198,15 @@ export class Transaction {
    * Subscribe to real-time events for this transaction.
    */
   subscribe(): StreamConnection {
-    const baseURL = this.http.getBaseURL?.() || 'https://api.quicksilver.com';
-    const url = new URL(`${baseURL}/sse/transactions/${this.id}`);
-    return new StreamConnection(url);
+    return this.http.openStream(buildPath(ROUTES.streamTransactionEvents, { id: this.id }));
+  }
+
+  /**
+   * Iterate over real-time events for this transaction with `for await`.
+   * @param options - Abort signal, buffer size and overflow policy.
+   */
+  events(options?: EventIteratorOptions): EventIterator {
+    return new EventIterator(this.subscribe(), options);
   }
 
   /**
@@ -223,69 +241,70 @@ export class Transaction {
   /**
    * Convert this transaction to a streaming transaction.
    */
-  async toStream(options: { rate: number; rate_unit: string }): Promise<any> {
-    const streamData = await this.http.post<any>(`/transactions/${this.id}/stream`, options);
+  async toStream(options: { rate: number; rate_unit: string }, config?: RequestConfig): Promise<any> {
+    const streamData = await withRequestConfig(this.http, config).post<any>(buildPath(ROUTES.createStream, { id: this.id }), options);
     return streamData;
   }
 
   /**
    * Start streaming this transaction.
    */
-  async startStreaming(rate: number, unit: string): Promise<any> {
-    return this.toStream({ rate, rate_unit: unit });
+  async startStreaming(rate: number, unit: string, config?: RequestConfig): Promise<any> {
+    return this.toStream({ rate, rate_unit: unit }, config);
   }
 
   /**
    * Update the transaction.
    */
-  async update(updates: Partial<TransactionData>): Promise<this> {
-    this.data = await this.http.put<TransactionData>(`/transactions/${this.id}`, updates);
+  async update(updates: Partial<TransactionData>, config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).put<TransactionData>(buildPath(ROUTES.updateTransaction, { id: this.id }), updates);
     return this;
   }
 
   /**
    * Delete the transaction.
    */
-  async delete(): Promise<void> {
-    await this.http.delete(`/transactions/${this.id}`);
+  async delete(config?: RequestConfig): Promise<void> {
+    await withRequestConfig(this.http, config).delete(buildPath(ROUTES.deleteTransaction, { id: this.id }));
   }
 
   /**
    * Execute the transaction through a gateway.
    */
-  async executeGateway(gatewayId: string): Promise<this> {
-    this.data = await this.http.post<TransactionData>(`/transactions/${this.id}/gateways/${gatewayId}/execute`);
+  async executeGateway(gatewayId: string, config?: RequestConfig): Promise<this> {
+    this.data = await withRequestConfig(this.http, config).post<TransactionData>(buildPath(ROUTES.executeTransactionWithGateway, { id: this.id, gatewayId }));
     return this;
   }
 
   /**
    * Create a streaming transaction.
    */
-  async stream(options: { rate?: number; rateUnit?: string; rate_unit?: string; endTime?: string }): Promise<any> {
+  async stream(options: { rate?: number; rateUnit?: string; rate_unit?: string; endTime?: string }, config?: RequestConfig): Promise<any> {
     const streamOptions = {
       rate: options.rate,
       rateUnit: options.rateUnit || options.rate_unit,
       endTime: options.endTime
     };
-    const streamData = await this.http.post<any>(`/transactions/${this.id}/stream`, streamOptions);
+    const streamData = await withRequestConfig(this.http, config).post<any>(buildPath(ROUTES.createStream, { id: this.id }), streamOptions);
     return streamData;
   }
 
   /**
    * Refund the transaction.
    */
-  async refund(amount?: number): Promise<this> {
+  async refund(amount?: Amount, config?: RequestConfig): Promise<this> {
     const refundAmount = amount !== undefined ? amount : this.data.amount;
     const refundData = { amount: refundAmount };
-    this.data = await this.http.post<TransactionData>(`/transactions/${this.id}/refund`, refundData);
+    this.data = await withRequestConfig(this.http, config)
+      .post<TransactionData>(buildPath(ROUTES.refundTransaction, { id: this.id }), refundData);
     return this;
   }
 
   /**
    * Get streams associated with this transaction.
    */
-  async getStreams(): Promise<any[]> {
-    const streams = await this.http.get<any[]>(`/transactions/${this.id}/streams`);
+  async getStreams(config?: RequestConfig): Promise<any[]> {
+    const streams = await withRequestConfig(this.http, config).get<any[]>(buildPath(ROUTES.listTransactionStreams, { id: this.id }));
     return streams || [];
   }
 
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "bun:test";
+import { Money, parseAmounts } from "./money";
+import { CurrencyMismatchError } from "./errors";
+
+describe("Money", () => {
+  describe("of()", () => {
+    it("should pad to the currency's precision", () => {
+      expect(Money.of(5).toString()).toBe("5.00");
+      expect(Money.of("1.5", "USDC").toString()).toBe("1.500000");
+      expect(Money.of(42n, { Custom: "GBP" }).toString()).toBe("42.00");
+    });
+
+    it("should keep digits beyond the currency's precision", () => {
+      expect(Money.of("0.00002").toString()).toBe("0.00002");
+      expect(Money.of(1.5e-7).toString()).toBe("0.00000015");
+      expect(Money.of("-0.5").toString()).toBe("-0.50");
+    });
+
+    it("should reject invalid amounts", () => {
+      expect(() => Money.of("12,50")).toThrow(RangeError);
+      expect(() => Money.of(NaN)).toThrow(RangeError);
+      expect(() => Money.of("")).toThrow(RangeError);
+    });
+
+    it("should build amounts from minor units", () => {
+      expect(Money.fromMinorUnits(1999).toString()).toBe("19.99");
+      expect(Money.fromMinorUnits(1n, "USDC").toString()).toBe("0.000001");
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should add and subtract exactly", () => {
+      expect(Money.of("0.1").plus("0.2").toString()).toBe("0.30");
+      expect(Money.of(0.1).plus(Money.of(0.2)).equals("0.3")).toBe(true);
+      expect(Money.of("1.00").minus("0.00001").toString()).toBe("0.99999");
+    });
+
+    it("should multiply micro-prices without drift", () => {
+      const perToken = Money.of("0.00002");
+
+      expect(perToken.times(123_456).toString()).toBe("2.46912");
+      expect(perToken.times("0.5").toString()).toBe("0.00001");
+    });
+
+    it("should divide with rounding", () => {
+      expect(Money.of("10").dividedBy(3).toString()).toBe("3.33");
+      expect(Money.of("10").dividedBy(3, "up").toString()).toBe("3.34");
+      expect(() => Money.of("1").dividedBy(0)).toThrow(RangeError);
+    });
+
+    it("should refuse to combine currencies", () => {
+      expect(() => Money.of(1, "USD").plus(Money.of(1, "EUR"))).toThrow(CurrencyMismatchError);
+      expect(Money.of(1, { Custom: "USD" }).plus(Money.of(1, "USD")).toString()).toBe("2.00");
+    });
+
+    it("should compare amounts at different scales", () => {
+      expect(Money.of("1.5").compare("1.50000")).toBe(0);
+      expect(Money.of("1.49999").compare("1.5")).toBe(-1);
+      expect(Money.of("2").negate().isNegative()).toBe(true);
+      expect(Money.zero("EUR").isZero()).toBe(true);
+    });
+
+    it("should allocate without losing a cent", () => {
+      const parts = Money.of("10.00").allocate([1, 1, 1]);
+
+      expect(parts.map(part => part.toString())).toEqual(["3.34", "3.33", "3.33"]);
+      expect(Money.of("0.05").allocate([70, 30]).map(part => part.toString())).toEqual(["0.04", "0.01"]);
+    });
+  });
+
+  describe("round()", () => {
+    it("should support every rounding mode", () => {
+      const cases: Array<[string, Parameters<Money["round"]>[0], string]> = [
+        ["2.345", "half-even", "2.34"],
+        ["2.355", "half-even", "2.36"],
+        ["2.345", "half-up", "2.35"],
+        ["2.345", "half-down", "2.34"],
+        ["2.341", "up", "2.35"],
+        ["2.349", "down", "2.34"],
+        ["-2.341", "ceiling", "-2.34"],
+        ["-2.341", "floor", "-2.35"],
+      ];
+
+      for (const [amount, mode, expected] of cases) {
+        expect(Money.of(amount).round(mode).toString()).toBe(expected);
+      }
+    });
+
+    it("should round to minor units", () => {
+      expect(Money.of("2.46912").toMinorUnits()).toBe(247n);
+      expect(Money.of("12.5").round("half-even", 0).toString()).toBe("12");
+    });
+  });
+
+  describe("format()", () => {
+    it("should format ISO currencies for a locale", () => {
+      expect(Money.of("1234.5").format("en-US")).toBe("$1,234.50");
+      expect(Money.of("0.00002").times(123_456).format("en-US")).toBe("$2.47");
+    });
+
+    it("should append the code of non-ISO currencies", () => {
+      expect(Money.of("1.5", "USDC").format("en-US")).toBe("1.500000 USDC");
+      expect(Money.of("1.5", "USDC").format("en-US", { fractionDigits: 2 })).toBe("1.50 USDC");
+    });
+  });
+
+  describe("JSON", () => {
+    it("should round-trip through JSON without losing precision", () => {
+      const price = Money.of("0.000015", "EUR");
+      const json = JSON.parse(JSON.stringify({ price }));
+
+      expect(json.price).toEqual({ amount: "0.000015", currency: "EUR" });
+      expect(Money.fromJSON(json.price).equals(price)).toBe(true);
+    });
+  });
+});
+
+describe("parseAmounts", () => {
+  it("should convert amounts that have a currency", () => {
+    const parsed = parseAmounts({
+      data: [{ amount: 5, currency: "EUR" }],
+      batch: { amount: 1 },
+    }) as any;
+
+    expect(parsed.data[0].amount.toString()).toBe("5.00");
+    expect(parsed.data[0].amount.currency).toBe("EUR");
+    expect(parsed.batch.amount).toBe(1);
+  });
+});
@@ -0,0 +1,347 @@
+import { CurrencyMismatchError } from './errors';
+import type { Currency } from './types';
+
+/**
+ * How to drop digits that don't fit the target precision.
+ * `half-even` (banker's rounding) is the default, as it doesn't bias sums.
+ */
+export type RoundingMode = 'half-even' | 'half-up' | 'half-down' | 'up' | 'down' | 'ceiling' | 'floor';
+
+/** JSON form of a Money value. The amount is a decimal string so no precision is lost. */
+export interface MoneyJSON {
+  amount: string;
+  currency: Currency;
+}
+
+export interface MoneyFormatOptions {
+  /** Digits after the decimal point. Defaults to the currency's precision. */
+  fractionDigits?: number;
+  rounding?: RoundingMode;
+}
+
+/** Decimal places of the minor unit, e.g. cents. Custom currencies use 2. */
+export const CURRENCY_PRECISION: Readonly<Record<string, number>> = {
+  USD: 2,
+  EUR: 2,
+  USDC: 6,
+};
+
+const DEFAULT_PRECISION = 2;
+const DECIMAL = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * An exact decimal amount of a currency. Amounts are stored as an integer
+ * count of 10^-scale units, so `Money.of('0.1').plus('0.2')` is exactly 0.30
+ * and per-token prices below a cent keep their digits until rounded.
+ * @example
+ * const price = Money.of('0.00002', 'USD');
+ * price.times(123_456).round().format('en-US'); // '$2.47'
+ */
+export class Money {
+  private constructor(
+    private readonly units: bigint,
+    private readonly scale: number,
+    public readonly currency: Currency
+  ) {}
+
+  /**
+   * @param amount - A decimal string such as `'19.99'`, a number, or a bigint of whole units.
+   * Numbers are read as their shortest decimal representation, so `Money.of(0.1)` is 0.10.
+   */
+  static of(amount: string | number | bigint, currency: Currency = 'USD'): Money {
+    const { units, scale } = parseDecimal(amount);
+    return Money.create(units, scale, currency);
+  }
+
+  /** Create an amount from an integer count of minor units, e.g. cents */
+  static fromMinorUnits(minorUnits: bigint | number, currency: Currency = 'USD'): Money {
+    if (typeof minorUnits === 'number' && !Number.isInteger(minorUnits)) {
+      throw new RangeError(`Minor units must be an integer, received ${minorUnits}`);
+    }
+    return Money.create(BigInt(minorUnits), getCurrencyPrecision(currency), currency);
+  }
+
+  static zero(currency: Currency = 'USD'): Money {
+    return Money.create(0n, 0, currency);
+  }
+
+  static fromJSON(json: MoneyJSON): Money {
+    return Money.of(json.amount, json.currency);
+  }
+
+  static isMoney(value: unknown): value is Money {
+    return value instanceof Money;
+  }
+
+  private static create(units: bigint, scale: number, currency: Currency): Money {
+    const precision = getCurrencyPrecision(currency);
+    // Keep at least the currency's precision, and no trailing zeros beyond it
+    while (scale > precision && units % 10n === 0n) {
+      units /= 10n;
+      scale--;
+    }
+    if (scale < precision) {
+      units *= 10n ** BigInt(precision - scale);
+      scale = precision;
+    }
+    return new Money(units, scale, currency);
+  }
+
+  /** Decimal places of the currency's minor unit */
+  get precision(): number {
+    return getCurrencyPrecision(this.currency);
+  }
+
+  plus(other: Money | string | number): Money {
+    const [a, b, scale] = this.align(other);
+    return Money.create(a + b, scale, this.currency);
+  }
+
+  minus(other: Money | string | number): Money {
+    const [a, b, scale] = this.align(other);
+    return Money.create(a - b, scale, this.currency);
+  }
+
+  /** Multiply exactly, e.g. a per-token rate by a token count */
+  times(multiplier: string | number | bigint): Money {
+    const factor = parseDecimal(multiplier);
+    return Money.create(this.units * factor.units, this.scale + factor.scale, this.currency);
+  }
+
+  /**
+   * Divide, rounding to the current scale (at least the currency's precision)
+   */
+  dividedBy(divisor: string | number | bigint, rounding: RoundingMode = 'half-even'): Money {
+    const { units, scale } = parseDecimal(divisor);
+    if (units === 0n) {
+      throw new RangeError('Cannot divide money by zero');
+    }
+    return Money.create(divide(this.units * 10n ** BigInt(scale), units, rounding), this.scale, this.currency);
+  }
+
+  /**
+   * Split into parts proportional to `ratios`, in minor units. Leftover units
+   * go to the first parts, so the parts always sum to the rounded total.
+   * @example
+   * Money.of('10.00').allocate([1, 1, 1]); // [3.34, 3.33, 3.33]
+   */
+  allocate(ratios: number[], rounding: RoundingMode = 'half-even'): Money[] {
+    const total = ratios.reduce((sum, ratio) => sum + ratio, 0);
+    if (ratios.length === 0 || total <= 0 || ratios.some(ratio => ratio < 0 || !Number.isInteger(ratio))) {
+      throw new RangeError('Ratios must be non-negative integers with a positive sum');
+    }
+
+    const minor = this.round(rounding).units;
+    const parts = ratios.map(ratio => (minor * BigInt(ratio)) / BigInt(total));
+    let remainder = minor - parts.reduce((sum, part) => sum + part, 0n);
+    const step = remainder < 0n ? -1n : 1n;
+    for (let index = 0; remainder !== 0n; index = (index + 1) % parts.length) {
+      if (ratios[index] !== 0) {
+        parts[index] = (parts[index] ?? 0n) + step;
+        remainder -= step;
+      }
+    }
+    return parts.map(part => Money.create(part, this.precision, this.currency));
+  }
+
+  /**
+   * Round to `scale` decimal places, by default the currency's precision
+   */
+  round(mode: RoundingMode = 'half-even', scale: number = this.precision): Money {
+    if (this.scale <= scale) {
+      return this;
+    }
+    return new Money(divide(this.units, 10n ** BigInt(this.scale - scale), mode), scale, this.currency);
+  }
+
+  negate(): Money {
+    return new Money(-this.units, this.scale, this.currency);
+  }
+
+  /** -1, 0 or 1 as this amount is less than, equal to or greater than `other` */
+  compare(other: Money | string | number): -1 | 0 | 1 {
+    const [a, b] = this.align(other);
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  equals(other: Money | string | number): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /** Integer count of minor units, e.g. cents, after rounding */
+  toMinorUnits(rounding: RoundingMode = 'half-even'): bigint {
+    return this.round(rounding).units;
+  }
+
+  /** The amount as a JS number. Exact for up to 15 significant digits. */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /** The exact amount as a decimal string, e.g. `'0.30'` */
+  toString(): string {
+    const digits = (this.units < 0n ? -this.units : this.units).toString().padStart(this.scale + 1, '0');
+    const sign = this.units < 0n ? '-' : '';
+    if (this.scale === 0) {
+      return `${sign}${digits}`;
+    }
+    return `${sign}${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+  }
+
+  /**
+   * Format for display, e.g. `'$1,234.50'` or `'1.234,50 €'`. Currencies
+   * without an ISO 4217 code are formatted as a number followed by the code.
+   */
+  format(locale?: string | string[], options: MoneyFormatOptions = {}): string {
+    const fractionDigits = options.fractionDigits ?? this.precision;
+    const value = this.round(options.rounding, fractionDigits).toNumber();
+    const code = currencyCode(this.currency);
+    const numberOptions = { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits };
+
+    if (!/^[A-Z]{3}$/.test(code)) {
+      return `${new Intl.NumberFormat(locale, numberOptions).format(value)} ${code}`;
+    }
+    return new Intl.NumberFormat(locale, { ...numberOptions, style: 'currency', currency: code }).format(value);
+  }
+
+  toJSON(): MoneyJSON {
+    return { amount: this.toString(), currency: this.currency };
+  }
+
+  private align(other: Money | string | number): [bigint, bigint, number] {
+    const operand = other instanceof Money ? other : Money.of(other, this.currency);
+    if (currencyCode(operand.currency) !== currencyCode(this.currency)) {
+      throw new CurrencyMismatchError(currencyCode(this.currency), currencyCode(operand.currency));
+    }
+    const scale = Math.max(this.scale, operand.scale);
+    return [
+      this.units * 10n ** BigInt(scale - this.scale),
+      operand.units * 10n ** BigInt(scale - operand.scale),
+      scale,
+    ];
+  }
+}
+
+export function currencyCode(currency: Currency): string {
+  return typeof currency === 'string' ? currency : currency.Custom;
+}
+
+export function getCurrencyPrecision(currency: Currency): number {
+  return CURRENCY_PRECISION[currencyCode(currency)] ?? DEFAULT_PRECISION;
+}
+
+/**
+ * JSON.stringify replacer that sends Money values as plain numbers.
+ * The replacer sees the value after toJSON, so the original is read from the holder.
+ */
+export function moneyReplacer(this: unknown, key: string, value: unknown): unknown {
+  const original = (this as Record<string, unknown>)[key];
+  return original instanceof Money ? original.toNumber() : value;
+}
+
+/**
+ * Convert the amounts in a response into Money: `amount` next to a
+ * `currency`, and a stream's `rate` and `accumulated` in the currency of its
+ * base transaction. Amounts without a known currency are left as numbers.
+ */
+export function parseAmounts(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(parseAmounts);
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Money) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = parseAmounts(field);
+  }
+
+  const currency = result['currency'];
+  if (isCurrency(currency) && typeof result['amount'] === 'number') {
+    result['amount'] = Money.of(result['amount'], currency);
+  }
+
+  const base = result['base'];
+  const baseCurrency = base !== null && typeof base === 'object' ? (base as Record<string, unknown>)['currency'] : undefined;
+  if (isCurrency(baseCurrency)) {
+    for (const key of ['rate', 'accumulated']) {
+      if (typeof result[key] === 'number') {
+        result[key] = Money.of(result[key] as number, baseCurrency);
+      }
+    }
+  }
+  return result;
+}
+
+function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' ||
+    (value !== null && typeof value === 'object' && typeof (value as { Custom?: unknown }).Custom === 'string');
+}
+
+function parseDecimal(value: string | number | bigint): { units: bigint; scale: number } {
+  if (typeof value === 'bigint') {
+    return { units: value, scale: 0 };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new RangeError(`Amount must be finite, received ${value}`);
+  }
+
+  const match = DECIMAL.exec(String(value).trim());
+  const [, sign = '', whole = '', fraction = '', exponent = '0'] = match ?? [];
+  if (!match || (whole === '' && fraction === '')) {
+    throw new RangeError(`Invalid decimal amount: ${JSON.stringify(value)}`);
+  }
+
+  // Shift the decimal point by the exponent, e.g. 1.5e-7 or 2e21
+  let scale = fraction.length - Number(exponent);
+  let units = BigInt(`${sign === '-' ? '-' : ''}${whole}${fraction}` || '0');
+  if (scale < 0) {
+    units *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { units, scale };
+}
+
+/**
+ * Integer division with the given rounding mode
+ */
+function divide(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const sign = (numerator < 0n) === (denominator < 0n) ? 1n : -1n;
+  const twice = 2n * (remainder < 0n ? -remainder : remainder);
+  const divisor = denominator < 0n ? -denominator : denominator;
+
+  let awayFromZero: boolean;
+  switch (mode) {
+    case 'up':
+      awayFromZero = true;
+      break;
+    case 'down':
+      awayFromZero = false;
+      break;
+    case 'ceiling':
+      awayFromZero = sign > 0n;
+      break;
+    case 'floor':
+      awayFromZero = sign < 0n;
+      break;
+    default:
+      awayFromZero = twice > divisor ||
+        (twice === divisor && (mode === 'half-up' || (mode === 'half-even' && quotient % 2n !== 0n)));
+  }
+  return awayFromZero ? quotient + sign : quotient;
+}
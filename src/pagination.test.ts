@@ -0,0 +1,79 @@
+import { describe, it, expect, mock } from "bun:test";
+import { PagePromise } from "./pagination";
+import type { PaginatedResponse, PaginationParams } from "./types";
+
+function page(data: number[], pagination: Partial<PaginatedResponse<number>["pagination"]>): PaginatedResponse<number> {
+  return { data, pagination: { page: 1, limit: 2, total: 5, has_more: false, ...pagination } };
+}
+
+describe("PagePromise", () => {
+  it("should resolve to the first page", async () => {
+    const fetchPage = mock(() => Promise.resolve(page([1, 2], { has_more: true })));
+
+    const result = await PagePromise.paginate({ limit: 2 }, fetchPage);
+
+    expect(result.data).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("should iterate over every item with cursor pagination", async () => {
+    const pages: Record<string, PaginatedResponse<number>> = {
+      start: page([1, 2], { has_more: true, next_cursor: "c2" }),
+      c2: page([3, 4], { has_more: true, next_cursor: "c3" }),
+      c3: page([5], { has_more: false }),
+    };
+    const fetchPage = mock((params: PaginationParams) => Promise.resolve(pages[params.cursor ?? "start"]!));
+
+    const items: number[] = [];
+    for await (const item of PagePromise.paginate({ limit: 2 }, fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage).toHaveBeenCalledWith({ limit: 2, cursor: "c3" });
+  });
+
+  it("should fall back to page numbers when there is no cursor", async () => {
+    const fetchPage = mock((params: PaginationParams) => {
+      const current = params.page ?? 1;
+      return Promise.resolve(page([current], { page: current, has_more: current < 3 }));
+    });
+
+    const pages = [];
+    for await (const result of PagePromise.paginate({ limit: 1 }, fetchPage).pages()) {
+      pages.push(result.pagination.page);
+    }
+
+    expect(pages).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenLastCalledWith({ limit: 1, page: 3 });
+  });
+
+  it("should stop fetching once max items are collected", async () => {
+    const fetchPage = mock((params: PaginationParams) => {
+      const current = params.page ?? 1;
+      return Promise.resolve(page([current * 10, current * 10 + 1], { page: current, has_more: true }));
+    });
+
+    const items = await PagePromise.paginate({}, fetchPage).toArray({ max: 3 });
+
+    expect(items).toEqual([10, 11, 20]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("should stop on an empty page even if more are announced", async () => {
+    const fetchPage = mock(() => Promise.resolve(page([], { has_more: true })));
+
+    const items = await PagePromise.paginate({}, fetchPage).toArray();
+
+    expect(items).toEqual([]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject when a later page fails", async () => {
+    const fetchPage = mock((params: PaginationParams) =>
+      params.page ? Promise.reject(new Error("boom")) : Promise.resolve(page([1], { has_more: true }))
+    );
+
+    await expect(PagePromise.paginate({}, fetchPage).toArray()).rejects.toThrow("boom");
+  });
+});
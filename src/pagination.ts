@@ -0,0 +1,103 @@
+import { ApiPromise } from './api-promise';
+import type { PaginatedResponse, PaginationParams } from './types';
+
+/**
+ * A promise for the first page of a list endpoint that can also walk
+ * through every following page.
+ * @example
+ * for await (const tx of client.transactions.list({ limit: 100 })) {
+ *   console.log(tx.id);
+ * }
+ *
+ * const page = await client.transactions.list(); // first page only
+ * const recent = await client.transactions.list().toArray({ max: 500 });
+ */
+export class PagePromise<T, P extends PaginationParams = PaginationParams>
+  extends ApiPromise<PaginatedResponse<T>>
+  implements AsyncIterable<T> {
+  private fetchPage!: (params: P) => PromiseLike<PaginatedResponse<T>>;
+  private params!: P;
+
+  /**
+   * Start paginating a list endpoint.
+   * @param params - The parameters of the first page.
+   * @param fetchPage - Fetches the page for a set of parameters.
+   */
+  static paginate<T, P extends PaginationParams>(
+    params: P,
+    fetchPage: (params: P) => PromiseLike<PaginatedResponse<T>>
+  ): PagePromise<T, P> {
+    const first = ApiPromise.from(fetchPage(params));
+    const promise = PagePromise.fromResponse(first.withResponse()) as PagePromise<T, P>;
+    promise.fetchPage = fetchPage;
+    promise.params = params;
+    return promise;
+  }
+
+  /**
+   * Iterate over the pages, starting with the first one
+   */
+  async *pages(): AsyncGenerator<PaginatedResponse<T>> {
+    let page: PaginatedResponse<T> = await this;
+    let params = this.params;
+
+    for (;;) {
+      yield page;
+
+      const nextParams = getNextPageParams(page, params);
+      if (!nextParams || page.data.length === 0) {
+        return;
+      }
+      params = nextParams;
+      page = await this.fetchPage(params);
+    }
+  }
+
+  /**
+   * Iterate over the items of every page
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    for await (const page of this.pages()) {
+      yield* page.data;
+    }
+  }
+
+  /**
+   * Collect the items of every page.
+   * @param options.max - Stop after this many items.
+   */
+  async toArray(options: { max?: number } = {}): Promise<T[]> {
+    const { max = Infinity } = options;
+    const items: T[] = [];
+    if (max <= 0) {
+      return items;
+    }
+
+    for await (const item of this) {
+      items.push(item);
+      if (items.length >= max) {
+        break;
+      }
+    }
+    return items;
+  }
+}
+
+/**
+ * Parameters for the page after `page`, or null on the last page.
+ * Prefers cursor pagination and falls back to page numbers.
+ */
+function getNextPageParams<P extends PaginationParams>(page: PaginatedResponse<unknown>, params: P): P | null {
+  const pagination = page.pagination;
+  if (!pagination?.has_more) {
+    return null;
+  }
+
+  if (pagination.next_cursor) {
+    const nextParams = { ...params, cursor: pagination.next_cursor };
+    delete nextParams.page;
+    return nextParams;
+  }
+
+  return { ...params, page: (pagination.page ?? params.page ?? 1) + 1 };
+}
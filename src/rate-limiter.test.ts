@@ -0,0 +1,104 @@
+import { describe, it, expect, mock } from "bun:test";
+import { RateLimiter } from "./rate-limiter";
+import { RequestAbortedError } from "./errors";
+
+describe("RateLimiter", () => {
+  it("should let requests through immediately while under the limits", async () => {
+    const onQueue = mock(() => {});
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 2, onQueue });
+
+    const release1 = await limiter.acquire("GET", "/accounts");
+    const release2 = await limiter.acquire("GET", "/accounts");
+    release1();
+    release2();
+
+    expect(onQueue).not.toHaveBeenCalled();
+  });
+
+  it("should queue requests beyond the burst until tokens refill", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 50, burst: 1 });
+
+    const start = Date.now();
+    (await limiter.acquire("GET", "/accounts"))();
+    (await limiter.acquire("GET", "/accounts"))();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+
+  it("should cap the number of requests in flight", async () => {
+    const onQueue = mock(() => {});
+    const limiter = new RateLimiter({ maxConcurrent: 1, onQueue });
+
+    const release = await limiter.acquire("GET", "/accounts");
+    let admitted = false;
+    const second = limiter.acquire("POST", "/transactions").then(next => {
+      admitted = true;
+      return next;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(admitted).toBe(false);
+    expect(limiter.getQueueDepth()).toBe(1);
+
+    release();
+    (await second)();
+
+    expect(onQueue).toHaveBeenCalledWith(expect.objectContaining({
+      method: "POST",
+      url: "/transactions",
+      group: "default",
+      queueDepth: 0,
+    }));
+  });
+
+  it("should apply route group limits only to matching routes", async () => {
+    const onQueue = mock(() => {});
+    const limiter = new RateLimiter({
+      routes: [{ name: "transactions", match: "/transactions", maxConcurrent: 1 }],
+      onQueue,
+    });
+
+    const release = await limiter.acquire("POST", "/transactions");
+    // Other routes are not held back by the group
+    (await limiter.acquire("GET", "/accounts/acc_1/transactions"))();
+
+    const queued = limiter.acquire("POST", "/transactions/txn_1/execute");
+    release();
+    (await queued)();
+
+    expect(onQueue).toHaveBeenCalledTimes(1);
+    expect(onQueue).toHaveBeenCalledWith(expect.objectContaining({ group: "transactions" }));
+  });
+
+  it("should pause when the server reports the window as exhausted", async () => {
+    const limiter = new RateLimiter();
+
+    limiter.update(429, { remaining: 0 }, 30);
+    const start = Date.now();
+    (await limiter.acquire("GET", "/accounts"))();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+  });
+
+  it("should ignore rate limit headers when not adaptive", async () => {
+    const limiter = new RateLimiter({ adaptive: false });
+
+    limiter.update(429, { remaining: 0 }, 60000);
+
+    const release = await limiter.acquire("GET", "/accounts");
+    release();
+  });
+
+  it("should remove aborted requests from the queue", async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const controller = new AbortController();
+
+    const release = await limiter.acquire("GET", "/accounts");
+    const queued = limiter.acquire("GET", "/accounts", controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(limiter.getQueueDepth()).toBe(0);
+    release();
+  });
+});
@@ -0,0 +1,302 @@
+import { RequestAbortedError } from './errors';
+import type { RateLimitInfo } from './types';
+
+/**
+ * Limits for the requests sent through one limiter
+ */
+export interface LimitOptions {
+  /** Sustained request rate. Unlimited when omitted. */
+  requestsPerSecond?: number;
+  /** Number of requests that may be sent at once before the rate applies. Defaults to requestsPerSecond. */
+  burst?: number;
+  /** Maximum number of requests awaiting a response. Unlimited when omitted. */
+  maxConcurrent?: number;
+}
+
+/**
+ * Separate limits for a group of routes, e.g. `/transactions`
+ */
+export interface RouteGroup extends LimitOptions {
+  /** Name reported to the onQueue hook */
+  name: string;
+  /** Path prefix (`'/transactions'` also matches `/transactions/txn_1`) or a pattern tested against the path */
+  match: string | RegExp;
+}
+
+export interface RateLimiterOptions extends LimitOptions {
+  /**
+   * Route groups with their own limits, checked in order. Requests in a group
+   * count against both the group's limits and the client-wide limits.
+   */
+  routes?: RouteGroup[];
+  /**
+   * Hold back all requests while the server reports the rate limit window as
+   * exhausted (X-RateLimit-Remaining: 0, or a 429 with Retry-After). Defaults to true.
+   */
+  adaptive?: boolean;
+  /** Called whenever a request is sent after waiting in the queue */
+  onQueue?: (event: QueueEvent) => void;
+}
+
+/**
+ * Details passed to the onQueue hook
+ */
+export interface QueueEvent {
+  method: string;
+  url: string;
+  /** Name of the route group the request belongs to, or 'default' */
+  group: string;
+  /** Milliseconds the request spent in the queue */
+  waitTime: number;
+  /** Number of requests still waiting */
+  queueDepth: number;
+}
+
+// X-RateLimit-Reset values above this are Unix timestamps, smaller ones are seconds from now
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+/**
+ * Client-side rate limiter and concurrency governor.
+ * Requests over the limits wait in a FIFO queue instead of failing.
+ */
+export class RateLimiter {
+  private readonly global: TokenBucket;
+  private readonly groups: Array<{ group: RouteGroup; bucket: TokenBucket }>;
+  private readonly adaptive: boolean;
+  private readonly onQueue: RateLimiterOptions['onQueue'];
+  private waiting = 0;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.global = new TokenBucket(options);
+    this.groups = (options.routes ?? []).map(group => ({ group, bucket: new TokenBucket(group) }));
+    this.adaptive = options.adaptive ?? true;
+    this.onQueue = options.onQueue;
+  }
+
+  /**
+   * Wait until a request may be sent.
+   * @returns A function that must be called once the response has arrived.
+   */
+  async acquire(method: string, url: string, signal?: AbortSignal): Promise<() => void> {
+    const match = this.groups.find(({ group }) => matchesRoute(group.match, getPath(url)));
+    const start = Date.now();
+    let queued = false;
+
+    const take = async (bucket: TokenBucket): Promise<() => void> => {
+      if (bucket.tryAcquire()) {
+        return bucket.release;
+      }
+      queued = true;
+      this.waiting++;
+      try {
+        return await bucket.acquire(signal);
+      } finally {
+        this.waiting--;
+      }
+    };
+
+    // Group first, so that a request holding a group slot never blocks
+    // the client-wide queue for requests outside the group
+    const releaseGroup = match ? await take(match.bucket) : undefined;
+    let releaseGlobal: () => void;
+    try {
+      releaseGlobal = await take(this.global);
+    } catch (error) {
+      releaseGroup?.();
+      throw error;
+    }
+
+    if (queued) {
+      this.onQueue?.({
+        method,
+        url,
+        group: match?.group.name ?? 'default',
+        waitTime: Date.now() - start,
+        queueDepth: this.waiting,
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        releaseGlobal();
+        releaseGroup?.();
+      }
+    };
+  }
+
+  /**
+   * Adapt to the rate limit state reported by the server
+   * @param rateLimit - The parsed X-RateLimit-* headers.
+   * @param retryAfter - The Retry-After delay in milliseconds, if any.
+   */
+  update(status: number, rateLimit: RateLimitInfo, retryAfter?: number): void {
+    if (!this.adaptive) {
+      return;
+    }
+
+    if (status === 429 || rateLimit.remaining === 0) {
+      const delay = retryAfter ?? getResetDelay(rateLimit.reset);
+      if (delay !== undefined && delay > 0) {
+        this.global.pause(delay);
+      }
+    }
+  }
+
+  /**
+   * Number of requests waiting in the queue
+   */
+  getQueueDepth(): number {
+    return this.waiting;
+  }
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+}
+
+/**
+ * Token bucket with an optional cap on in-flight requests
+ */
+class TokenBucket {
+  private readonly rate: number | undefined;
+  private readonly capacity: number;
+  private readonly maxConcurrent: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private inFlight = 0;
+  private pausedUntil = 0;
+  private readonly queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: LimitOptions) {
+    this.rate = options.requestsPerSecond;
+    this.capacity = Math.max(1, options.burst ?? options.requestsPerSecond ?? 1);
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.tokens = this.capacity;
+  }
+
+  readonly release = (): void => {
+    this.inFlight--;
+    this.drain();
+  };
+
+  /**
+   * Take a slot without waiting, if one is free and nobody is queued
+   */
+  tryAcquire(): boolean {
+    if (this.queue.length > 0 || this.getDelay() !== 0) {
+      return false;
+    }
+    this.take();
+    return true;
+  }
+
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestAbortedError(signal.reason));
+        return;
+      }
+
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(new RequestAbortedError(signal?.reason));
+          this.drain();
+        },
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Hold back all requests for `ms` milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  private drain(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    while (this.queue.length > 0) {
+      const delay = this.getDelay();
+      if (delay === null) {
+        // Woken up again by release()
+        return;
+      }
+      if (delay > 0) {
+        this.timer = setTimeout(() => this.drain(), delay);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      this.take();
+      waiter.resolve(this.release);
+    }
+  }
+
+  private take(): void {
+    if (this.rate !== undefined) {
+      this.tokens--;
+    }
+    this.inFlight++;
+  }
+
+  /**
+   * Milliseconds until the next request may be sent, or null while
+   * the concurrency cap is reached
+   */
+  private getDelay(): number | null {
+    const now = Date.now();
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now;
+    }
+    if (this.inFlight >= this.maxConcurrent) {
+      return null;
+    }
+    if (this.rate === undefined) {
+      return 0;
+    }
+
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+  }
+}
+
+function getPath(url: string): string {
+  const path = /^https?:\/\//.test(url) ? new URL(url).pathname : url;
+  return path.split('?')[0] ?? path;
+}
+
+function matchesRoute(match: string | RegExp, path: string): boolean {
+  if (typeof match !== 'string') {
+    return match.test(path);
+  }
+  const prefix = match.replace(/\/$/, '');
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+/**
+ * Milliseconds until an X-RateLimit-Reset value
+ */
+function getResetDelay(reset: number | undefined): number | undefined {
+  if (reset === undefined) {
+    return undefined;
+  }
+  return reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 - Date.now() : reset * 1000;
+}
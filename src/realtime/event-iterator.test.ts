@@ -0,0 +1,97 @@
+import { describe, it, expect, mock } from "bun:test";
+import { EventIterator } from "./event-iterator";
+import type { StreamEvent } from "./event-iterator";
+import { StreamConnection } from "./sse";
+import { AuthenticationError, EventBufferOverflowError } from "../errors";
+
+const URL_ = new URL("https://api.quicksilver.com/sse/streams/s_1");
+
+// A response that sends the given chunks and then stays open until aborted
+function openResponse(chunks: string[], init?: RequestInit): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      init?.signal?.addEventListener("abort", () => controller.error(new Error("aborted")));
+    },
+  });
+  return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+function connect(chunks: string[]) {
+  const fetch = mock((_url: string | URL | Request, init?: RequestInit) => Promise.resolve(openResponse(chunks, init)));
+  return new StreamConnection(new URL(URL_), "sk_test", { fetch });
+}
+
+const EVENTS = [
+  'id: 1\nevent: stream_event\ndata: {"stream_id":"s_1","event_type":"paused"}\n\n',
+  'id: 2\nevent: batch_created\ndata: {"stream_id":"s_1","batch_transaction_id":"b_1","amount":1}\n\n',
+  "event: heartbeat\ndata: \n\n",
+  'id: 3\nevent: stream_rate_changed\ndata: {"rate":2}\n\n',
+];
+
+describe("EventIterator", () => {
+  it("should yield a discriminated union of events", async () => {
+    const connection = connect(EVENTS);
+    const received: StreamEvent[] = [];
+
+    for await (const event of new EventIterator(connection)) {
+      received.push(event);
+      if (received.length === 4) {
+        break;
+      }
+    }
+
+    expect(received).toEqual([
+      { type: "stream_event", id: "1", data: { stream_id: "s_1", event_type: "paused" } as any },
+      { type: "batch_created", id: "2", data: { stream_id: "s_1", batch_transaction_id: "b_1", amount: 1 } as any },
+      { type: "heartbeat", id: "2" },
+      { type: "unknown", id: "3", event: "stream_rate_changed", data: { rate: 2 } },
+    ]);
+    expect(connection.readyState).toBe(StreamConnection.CLOSED);
+  });
+
+  it("should end cleanly and close the connection when aborted", async () => {
+    const connection = connect([]);
+    const controller = new AbortController();
+    const iterator = new EventIterator(connection, { signal: controller.signal });
+
+    const next = iterator.next();
+    controller.abort();
+
+    expect(await next).toEqual({ value: undefined, done: true });
+    expect(connection.readyState).toBe(StreamConnection.CLOSED);
+  });
+
+  it("should drop the oldest events when the buffer is full", async () => {
+    const connection = connect(EVENTS);
+    const iterator = new EventIterator(connection, { bufferSize: 2, overflow: "drop-oldest" });
+    await new Promise(resolve => connection.once("unknown", resolve));
+
+    const first = await iterator.next();
+    const second = await iterator.next();
+    await iterator.return();
+
+    expect([first.value?.type, second.value?.type]).toEqual(["heartbeat", "unknown"]);
+    expect(iterator.dropped).toBe(2);
+  });
+
+  it("should throw after the buffered events when the buffer overflows", async () => {
+    const connection = connect(EVENTS);
+    const iterator = new EventIterator(connection, { bufferSize: 2 });
+    await new Promise(resolve => connection.once("close", resolve));
+
+    expect((await iterator.next()).value?.type).toBe("stream_event");
+    expect((await iterator.next()).value?.type).toBe("batch_created");
+    await expect(iterator.next()).rejects.toBeInstanceOf(EventBufferOverflowError);
+    expect(await iterator.next()).toEqual({ value: undefined, done: true });
+    expect(connection.readyState).toBe(StreamConnection.CLOSED);
+  });
+
+  it("should throw errors that close the connection", async () => {
+    const fetch = mock(() => Promise.resolve(new Response(null, { status: 401 })));
+    const iterator = new EventIterator(new StreamConnection(new URL(URL_), "sk_bad", { fetch }));
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
@@ -0,0 +1,208 @@
+import type { SSEStreamEvent, SSEBatchCreatedEvent } from '../types';
+import { EventBufferOverflowError } from '../errors';
+import { StreamConnection } from './sse';
+
+export interface StreamEventMessage {
+  type: 'stream_event';
+  /** The SSE event ID, or '' if the server doesn't send IDs */
+  id: string;
+  data: SSEStreamEvent;
+}
+
+export interface BatchCreatedMessage {
+  type: 'batch_created';
+  id: string;
+  data: SSEBatchCreatedEvent;
+}
+
+export interface HeartbeatMessage {
+  type: 'heartbeat';
+  id: string;
+}
+
+/**
+ * An event this SDK doesn't know about yet, including unnamed messages
+ */
+export interface UnknownMessage {
+  type: 'unknown';
+  id: string;
+  /** The SSE event name */
+  event: string;
+  /** The payload, parsed as JSON when possible */
+  data: unknown;
+}
+
+export type StreamEvent = StreamEventMessage | BatchCreatedMessage | HeartbeatMessage | UnknownMessage;
+
+/**
+ * What to do with a new event when the buffer is full:
+ * - `error`: end the iteration with an EventBufferOverflowError
+ * - `drop-oldest`: discard the oldest buffered event
+ * - `drop-newest`: discard the new event
+ */
+export type OverflowPolicy = 'error' | 'drop-oldest' | 'drop-newest';
+
+export interface EventIteratorOptions {
+  /** Stop iterating and close the connection when aborted */
+  signal?: AbortSignal;
+  /** Maximum number of events held while the consumer is busy (default: 1000) */
+  bufferSize?: number;
+  /** What to do when the buffer is full (default: 'error') */
+  overflow?: OverflowPolicy;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+type Listener =
+  | ['stream_event', (data: SSEStreamEvent) => void]
+  | ['batch_created', (data: SSEBatchCreatedEvent) => void]
+  | ['heartbeat' | 'close', () => void]
+  | ['message', (data: unknown) => void]
+  | ['unknown', (event: string, data: unknown) => void]
+  | ['error', (error: Error) => void];
+
+/**
+ * Adapts a StreamConnection to `for await`. Events are buffered until the
+ * consumer asks for them; when the buffer fills up, the overflow policy
+ * decides what happens. Breaking out of the loop, aborting the signal or
+ * the connection closing all end the iteration and close the connection.
+ * Errors the connection recovers from by reconnecting are not thrown.
+ */
+export class EventIterator implements AsyncIterableIterator<StreamEvent> {
+  private readonly buffer: StreamEvent[] = [];
+  private readonly bufferSize: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly signal: AbortSignal | undefined;
+  private readonly listeners: Listener[];
+  private pending: { resolve: (result: IteratorResult<StreamEvent>) => void; reject: (error: Error) => void } | undefined;
+  private error: Error | undefined;
+  private done: boolean = false;
+  private droppedEvents: number = 0;
+
+  constructor(private readonly connection: StreamConnection, options: EventIteratorOptions = {}) {
+    this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    this.overflow = options.overflow ?? 'error';
+    this.signal = options.signal;
+
+    this.listeners = [
+      ['stream_event', (data: SSEStreamEvent) => this.push({ type: 'stream_event', id: connection.lastEventId, data })],
+      ['batch_created', (data: SSEBatchCreatedEvent) => this.push({ type: 'batch_created', id: connection.lastEventId, data })],
+      ['heartbeat', () => this.push({ type: 'heartbeat', id: connection.lastEventId })],
+      ['message', (data: unknown) => this.push({ type: 'unknown', id: connection.lastEventId, event: 'message', data })],
+      ['unknown', (event: string, data: unknown) => this.push({ type: 'unknown', id: connection.lastEventId, event, data })],
+      ['error', (error: Error) => {
+        if (connection.readyState === StreamConnection.CLOSED) {
+          this.finish(error);
+        }
+      }],
+      ['close', () => this.finish()],
+    ];
+    for (const [event, listener] of this.listeners) {
+      connection.on(event, listener);
+    }
+
+    if (this.signal?.aborted) {
+      this.finish();
+    } else {
+      this.signal?.addEventListener('abort', this.onAbort);
+    }
+  }
+
+  /**
+   * Number of events discarded by the drop-oldest or drop-newest policies
+   */
+  get dropped(): number {
+    return this.droppedEvents;
+  }
+
+  next(): Promise<IteratorResult<StreamEvent>> {
+    const event = this.buffer.shift();
+    if (event) {
+      return Promise.resolve({ value: event, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = undefined;
+      return Promise.reject(error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<StreamEvent>> {
+    this.buffer.length = 0;
+    this.finish();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  private push(event: StreamEvent) {
+    if (this.done) {
+      return;
+    }
+    if (this.pending) {
+      const { resolve } = this.pending;
+      this.pending = undefined;
+      resolve({ value: event, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      switch (this.overflow) {
+        case 'drop-newest':
+          this.droppedEvents++;
+          return;
+        case 'drop-oldest':
+          this.droppedEvents++;
+          this.buffer.shift();
+          break;
+        case 'error':
+          this.finish(new EventBufferOverflowError(this.bufferSize));
+          return;
+      }
+    }
+    this.buffer.push(event);
+  }
+
+  private readonly onAbort = () => {
+    this.buffer.length = 0;
+    this.finish();
+  };
+
+  /**
+   * Stop listening and close the connection. Buffered events are still
+   * delivered, followed by the error if there is one.
+   */
+  private finish(error?: Error) {
+    if (this.done) {
+      return;
+    }
+    this.done = true;
+    this.signal?.removeEventListener('abort', this.onAbort);
+    for (const [event, listener] of this.listeners) {
+      this.connection.off(event, listener);
+    }
+    if (this.connection.readyState !== StreamConnection.CLOSED) {
+      this.connection.close();
+    }
+
+    if (this.pending) {
+      const { resolve, reject } = this.pending;
+      this.pending = undefined;
+      if (error) {
+        reject(error);
+      } else {
+        resolve({ value: undefined, done: true });
+      }
+      return;
+    }
+    this.error = error;
+  }
+}
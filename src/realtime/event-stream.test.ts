@@ -0,0 +1,46 @@
+import { describe, it, expect } from "bun:test";
+import { EventStreamParser } from "./event-stream";
+
+describe("EventStreamParser", () => {
+  it("should parse named events", () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.feed('event: stream_event\ndata: {"stream_id":"s_1"}\n\n')).toEqual([
+      { event: "stream_event", data: '{"stream_id":"s_1"}', id: "" },
+    ]);
+  });
+
+  it("should join multi-line data with newlines", () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.feed("data: first\ndata:second\ndata\n\n")).toEqual([
+      { event: "message", data: "first\nsecond\n", id: "" },
+    ]);
+  });
+
+  it("should handle events split across chunks and CRLF line endings", () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.feed("﻿event: batch_cr")).toEqual([]);
+    expect(parser.feed("eated\r")).toEqual([]);
+    expect(parser.feed("\ndata: 1\r\n\r")).toEqual([]);
+    expect(parser.feed("\n")).toEqual([{ event: "batch_created", data: "1", id: "" }]);
+  });
+
+  it("should carry the last event ID over to later events", () => {
+    const parser = new EventStreamParser();
+
+    const events = parser.feed("id: 41\ndata: a\n\ndata: b\n\nid\ndata: c\n\n");
+
+    expect(events.map(event => event.id)).toEqual(["41", "41", ""]);
+    expect(parser.lastEventId).toBe("");
+  });
+
+  it("should read the retry field and ignore comments, unknown fields and empty events", () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.feed(": keep-alive\nretry: 2500\nretry: soon\nfoo: bar\nevent: ignored\n\n")).toEqual([]);
+    expect(parser.retry).toBe(2500);
+    expect(parser.feed("data: x\n\n")).toEqual([{ event: "message", data: "x", id: "" }]);
+  });
+});
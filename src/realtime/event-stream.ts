@@ -0,0 +1,109 @@
+/**
+ * One event from a `text/event-stream` response
+ */
+export interface ServerSentEvent {
+  /** The `event:` field, or 'message' when the server didn't name the event */
+  event: string;
+  /** The `data:` lines, joined with newlines */
+  data: string;
+  /** The most recent `id:` sent by the server, or '' before the first one */
+  id: string;
+}
+
+/**
+ * Incremental parser for the Server-Sent Events wire format, as specified
+ * for EventSource in the HTML standard. Feed it decoded text in chunks of
+ * any size; complete events are returned as their terminating blank line
+ * arrives.
+ */
+export class EventStreamParser {
+  /** The last event ID, carried over to later events that don't set one */
+  lastEventId: string = '';
+  /** Reconnection delay requested by the server with `retry:`, in milliseconds */
+  retry: number | undefined;
+
+  private buffer: string = '';
+  private eventType: string = '';
+  private data: string[] = [];
+  private started: boolean = false;
+
+  feed(chunk: string): ServerSentEvent[] {
+    let text = this.buffer + chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    const events: ServerSentEvent[] = [];
+    let start = 0;
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if (char !== '\n' && char !== '\r') {
+        continue;
+      }
+      // A CR at the end of the chunk may be the first half of a CRLF
+      if (char === '\r' && index === text.length - 1) {
+        break;
+      }
+
+      const event = this.processLine(text.slice(start, index));
+      if (event) {
+        events.push(event);
+      }
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      start = index + 1;
+    }
+
+    this.buffer = text.slice(start);
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | undefined {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return undefined; // Comment, e.g. a keep-alive
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+        }
+        break;
+    }
+    return undefined;
+  }
+
+  private dispatch(): ServerSentEvent | undefined {
+    const event = this.data.length > 0
+      ? { event: this.eventType || 'message', data: this.data.join('\n'), id: this.lastEventId }
+      : undefined;
+    this.eventType = '';
+    this.data = [];
+    return event;
+  }
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, mock } from "bun:test";
+import { StreamConnection } from "./sse";
+import type { StreamConnectionOptions } from "./sse";
+import { AuthenticationError } from "../errors";
+import type { StreamingTransaction } from "../types";
+
+type Backfill = NonNullable<StreamConnectionOptions["backfill"]>;
+
+const URL_ = new URL("https://api.quicksilver.com/sse/streams/s_1");
+
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+describe("StreamConnection", () => {
+  it("should authenticate with a header instead of the query string", () => {
+    const fetch = mock(() => Promise.resolve(sseResponse([])));
+
+    const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch });
+    connection.close();
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://api.quicksilver.com/sse/streams/s_1");
+    expect(init.headers).toEqual({
+      Accept: "text/event-stream",
+      "Cache-Control": "no-cache",
+      Authorization: "Bearer sk_test",
+    });
+  });
+
+  it("should emit typed events parsed from the stream", async () => {
+    const fetch = mock(() => Promise.resolve(sseResponse([
+      'event: stream_event\ndata: {"stream_id":"s_1",',
+      '"event_type":"paused"}\n\n',
+      'event: batch_created\ndata: {"stream_id":"s_1","amount":0.5}\n\n',
+      "data: hello\n\n",
+    ])));
+    const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch });
+    const received: unknown[] = [];
+    connection.on("stream_event", data => received.push(data));
+    connection.on("batch_created", data => received.push(data));
+
+    const message = await new Promise(resolve => connection.once("message", resolve));
+    connection.close();
+
+    expect(message).toBe("hello");
+    expect(received).toEqual([
+      { stream_id: "s_1", event_type: "paused" },
+      { stream_id: "s_1", amount: 0.5 },
+    ]);
+  });
+
+  it("should reconnect after the server ends the stream, waiting as long as it asked", async () => {
+    let connects = 0;
+    const fetch = mock(() => {
+      connects++;
+      return Promise.resolve(sseResponse(connects === 1 ? ["retry: 5\n\n"] : [`data: ${connects}\n\n`]));
+    });
+    const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch });
+    connection.setReconnectDelay(60000);
+
+    const message = await new Promise(resolve => connection.once("message", resolve));
+    connection.close();
+
+    expect(message).toBe(2);
+    expect(connection.readyState).toBe(StreamConnection.CLOSED);
+  });
+
+  it("should stop without retrying when the API key is rejected", async () => {
+    const fetch = mock(() => Promise.resolve(new Response(null, { status: 401 })));
+    const connection = new StreamConnection(new URL(URL_), "sk_bad", { fetch });
+
+    const error = await new Promise(resolve => connection.once("error", resolve));
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(connection.readyState).toBe(StreamConnection.CLOSED);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  describe("resuming", () => {
+    const batch = (id: number) =>
+      `id: ${id}\nevent: batch_created\ndata: {"stream_id":"s_1","batch_transaction_id":"b_${id}","amount":1}\n\n`;
+
+    it("should resume with Last-Event-ID and drop replayed events", async () => {
+      const responses = [[batch(1), batch(2)], [batch(2), batch(3)]];
+      const fetch = mock(() => Promise.resolve(sseResponse(responses.shift() ?? [])));
+      const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch });
+      connection.setReconnectDelay(1);
+      const batches: string[] = [];
+      const gaps: unknown[] = [];
+      connection.on("gap", gap => gaps.push(gap));
+
+      await new Promise<void>(resolve => connection.on("batch_created", data => {
+        batches.push(data.batch_transaction_id);
+        if (data.batch_transaction_id === "b_3") {
+          resolve();
+        }
+      }));
+      connection.close();
+
+      const [, init] = fetch.mock.calls[1] as unknown as [string, RequestInit];
+      expect((init.headers as Record<string, string>)["Last-Event-ID"]).toBe("2");
+      expect(batches).toEqual(["b_1", "b_2", "b_3"]);
+      expect(gaps).toEqual([]);
+    });
+
+    it("should drop replayed events that overlap ones already delivered", async () => {
+      const responses = [[batch(8), batch(9), batch(10)], [batch(9), batch(10), batch(11)]];
+      const fetch = mock(() => Promise.resolve(sseResponse(responses.shift() ?? [])));
+      const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch });
+      connection.setReconnectDelay(1);
+      const batches: string[] = [];
+      const gaps: unknown[] = [];
+      connection.on("gap", gap => gaps.push(gap));
+
+      await new Promise<void>(resolve => connection.on("batch_created", data => {
+        batches.push(data.batch_transaction_id);
+        if (data.batch_transaction_id === "b_11") {
+          resolve();
+        }
+      }));
+      connection.close();
+
+      expect(batches).toEqual(["b_8", "b_9", "b_10", "b_11"]);
+      expect(gaps).toEqual([]);
+    });
+
+    it("should backfill instead of replaying when event IDs start over", async () => {
+      const stream = { base: { id: "tx_1" }, accumulated: 3, last_batch: "b_3" } as StreamingTransaction;
+      const backfill = mock<Backfill>(() => Promise.resolve([stream]));
+      const responses = [[batch(10), batch(11)], [batch(1), batch(2), batch(12)]];
+      const fetch = mock(() => Promise.resolve(sseResponse(responses.shift() ?? [])));
+      const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch }, { backfill });
+      connection.setReconnectDelay(1);
+      const batches: string[] = [];
+      const gaps: unknown[] = [];
+      connection.on("gap", gap => gaps.push(gap));
+
+      await new Promise<void>(resolve => connection.on("batch_created", data => {
+        batches.push(data.batch_transaction_id);
+        if (data.batch_transaction_id === "b_12") {
+          resolve();
+        }
+      }));
+      await new Promise(resolve => setTimeout(resolve, 0));
+      connection.close();
+
+      expect(batches).toEqual(["b_10", "b_11", "b_12"]);
+      expect(gaps).toEqual([{ lastEventId: "11", resumedEventId: "1", streams: [stream] }]);
+      expect(connection.lastEventId).toBe("12");
+    });
+
+    it("should backfill the streams seen so far when event IDs skip ahead", async () => {
+      const stream = { base: { id: "tx_1" }, accumulated: 4, last_batch: "b_4" } as StreamingTransaction;
+      const backfill = mock<Backfill>(() => Promise.resolve([stream]));
+      const fetch = mock(() => Promise.resolve(sseResponse([batch(1), batch(4)])));
+      const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch }, { backfill });
+
+      const gap = await new Promise(resolve => connection.once("gap", resolve));
+      connection.close();
+
+      expect(backfill).toHaveBeenCalledWith(["s_1"]);
+      expect(gap).toEqual({ lastEventId: "1", resumedEventId: "4", streams: [stream] });
+    });
+
+    it("should report a gap after reconnecting when the server sends no event IDs", async () => {
+      const backfill = mock(() => Promise.resolve([]));
+      const fetch = mock(() => Promise.resolve(sseResponse([
+        'event: batch_created\ndata: {"stream_id":"s_1","batch_transaction_id":"b_1","amount":1}\n\n',
+      ])));
+      const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch }, { backfill });
+      connection.setReconnectDelay(1);
+
+      const gap = await new Promise(resolve => connection.once("gap", resolve));
+      connection.close();
+
+      expect(fetch.mock.calls.length).toBeGreaterThanOrEqual(2);
+      expect(backfill).toHaveBeenCalledWith(["s_1"]);
+      expect(gap).toEqual({ lastEventId: "", streams: [] });
+    });
+  });
+
+  describe("liveness", () => {
+    // A response that sends the given chunks and then goes quiet without closing
+    function silentResponse(chunks: string[], init?: RequestInit): Response {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+          init?.signal?.addEventListener("abort", () => controller.error(new Error("aborted")));
+        },
+      });
+      return new Response(body, { headers: { "content-type": "text/event-stream" } });
+    }
+
+    it("should replace a connection that goes quiet", async () => {
+      const fetch = mock((_url: string | URL | Request, init?: RequestInit) =>
+        Promise.resolve(silentResponse([": keep-alive\n\n"], init)));
+      const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch }, { idleTimeout: 20 });
+      connection.setReconnectDelay(1);
+      const lifecycle: unknown[] = [];
+      connection.on("stale", idleTime => lifecycle.push(["stale", idleTime]));
+      connection.on("reconnecting", (attempt, delay) => lifecycle.push(["reconnecting", attempt, delay]));
+
+      await new Promise(resolve => connection.once("reconnected", resolve));
+      const stats = connection.getStats();
+      connection.close();
+
+      expect(lifecycle).toEqual([["stale", 20], ["reconnecting", 1, 1]]);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect((fetch.mock.calls[0]![1]!.signal as AbortSignal).aborted).toBe(true);
+      expect(stats.reconnects).toBe(1);
+    });
+
+    it("should report connection statistics", async () => {
+      const fetch = mock((_url: string | URL | Request, init?: RequestInit) => Promise.resolve(silentResponse([
+        'event: stream_event\ndata: {"stream_id":"s_1","event_type":"paused"}\n\n',
+        'event: stream_event\ndata: {"stream_id":"s_1","event_type":"resumed"}\n\n',
+        "event: heartbeat\ndata: \n\n",
+      ], init)));
+      const connection = new StreamConnection(new URL(URL_), "sk_test", { fetch });
+
+      await new Promise(resolve => connection.once("heartbeat", resolve));
+      const stats = connection.getStats();
+      connection.close();
+
+      expect(stats.reconnects).toBe(0);
+      expect(stats.uptime).toBeGreaterThanOrEqual(0);
+      expect(stats.lastEventAt).toBeInstanceOf(Date);
+      expect(stats.eventsReceived).toEqual({ stream_event: 2, heartbeat: 1 });
+      expect(connection.getStats().uptime).toBe(0);
+    });
+  });
+});
@@ -1,127 +1,471 @@
 import { EventEmitter } from 'events';
-import type { SSEStreamEvent, SSEBatchCreatedEvent } from '../types';
+import type { SSEStreamEvent, SSEBatchCreatedEvent, StreamingTransaction } from '../types';
+import { resolveTransport } from '../transport';
+import type { FetchFunction, Transport } from '../transport';
+import { createLogger } from '../logger';
+import type { Logger } from '../logger';
+import { noopInstrumentation, SSE_EVENTS_METRIC } from '../instrumentation';
+import type { Instrumentation } from '../instrumentation';
+import { SSE_EVENT_SCHEMAS } from '../schemas';
+import { validate } from '../validation';
+import { AuthenticationError, NetworkError, QuicksilverError, ResponseValidationError } from '../errors';
+import { EventStreamParser } from './event-stream';
+import type { ServerSentEvent } from './event-stream';
+
+const DEFAULT_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+const SEQUENCE_PATTERN = /^\d+$/;
+const HEARTBEAT_EVENT = 'heartbeat';
+
+export interface StreamConnectionOptions {
+  logger?: Logger;
+  instrumentation?: Instrumentation;
+  /** Validate event payloads and emit ResponseValidationError instead of malformed events */
+  strict?: boolean;
+  /**
+   * Fetch the current state of streams after a gap in the event sequence,
+   * given the IDs of the streams seen on this connection so far
+   */
+  backfill?: (streamIds: string[]) => Promise<StreamingTransaction[]>;
+  /**
+   * Reconnect when nothing, not even a heartbeat or comment line, has been
+   * received for this many milliseconds. Disabled when omitted.
+   */
+  idleTimeout?: number;
+}
+
+export interface StreamStats {
+  /** Milliseconds since the current connection opened, or 0 while disconnected */
+  uptime: number;
+  /** Number of times the connection has been re-established */
+  reconnects: number;
+  /** When the last event was received */
+  lastEventAt?: Date;
+  /** Number of events received, by event type */
+  eventsReceived: Record<string, number>;
+}
+
+/**
+ * Emitted as 'gap' when events may have been missed: event IDs skipped
+ * ahead, or the connection dropped and the server doesn't send IDs to
+ * resume from.
+ */
+export interface StreamGap {
+  /** The last event ID received before the gap, or '' if there was none */
+  lastEventId: string;
+  /** The first event ID received after the gap, when known */
+  resumedEventId?: string;
+  /** Current state of the affected streams, to reconcile missed batches against */
+  streams: StreamingTransaction[];
+}
 
 // Define the events and their corresponding payload types
 export declare interface StreamConnection {
   on(event: 'stream_event', listener: (data: SSEStreamEvent) => void): this;
   on(event: 'batch_created', listener: (data: SSEBatchCreatedEvent) => void): this;
   on(event: 'open', listener: () => void): this;
-  on(event: 'error', listener: (error: Event) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
   on(event: 'close', listener: () => void): this;
+  on(event: 'gap', listener: (gap: StreamGap) => void): this;
+  on(event: 'heartbeat', listener: () => void): this;
+  on(event: 'unknown', listener: (event: string, data: unknown) => void): this;
+  on(event: 'stale', listener: (idleTime: number) => void): this;
+  on(event: 'reconnecting', listener: (attempt: number, delay: number) => void): this;
+  on(event: 'reconnected', listener: () => void): this;
   on(event: string, listener: (...args: any[]) => void): this;
 }
 
+/**
+ * A Server-Sent Events subscription, read with fetch so that it works in
+ * Node, Bun and browsers alike and authenticates with an Authorization
+ * header. Dropped connections are retried with exponential backoff and
+ * resumed with Last-Event-ID. Numeric event IDs are treated as a sequence:
+ * replayed events are dropped, and skipped ones are reported as a 'gap'.
+ * With an idle timeout, a connection that has silently died is detected
+ * and replaced.
+ */
 export class StreamConnection extends EventEmitter {
-  private eventSource: EventSource;
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+
+  private readonly fetch: FetchFunction;
+  private readonly logger: Logger;
+  private readonly instrumentation: Instrumentation;
+  private readonly strict: boolean;
+  private readonly endpoint: string;
+  private readonly apiKey: string | undefined;
+  private readonly backfill: ((streamIds: string[]) => Promise<StreamingTransaction[]>) | undefined;
+  private readonly streamIds = new Set<string>();
+  private latestEventId: string = '';
+  private firstEventId: string = '';
+  private connected: boolean = false;
+  private state: number = StreamConnection.CONNECTING;
+  private controller: AbortController | undefined;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
-  private reconnectDelay: number = 1000; // Start with 1 second
-  private isReconnecting: boolean = false;
+  private initialReconnectDelay: number = DEFAULT_RECONNECT_DELAY;
+  private reconnectDelay: number = DEFAULT_RECONNECT_DELAY;
+  private idleTimeout: number | undefined;
+  private idleTimer: ReturnType<typeof setTimeout> | undefined;
+  private openedAt: number = 0;
+  private reconnects: number = 0;
+  private lastEventAt: Date | undefined;
+  private eventsReceived: Record<string, number> = {};
 
-  constructor(url: URL, apiKey?: string) {
+  constructor(url: URL, apiKey?: string, transport?: Transport, options: StreamConnectionOptions = {}) {
     super();
-    
-    // Add API key to URL if provided
-    if (apiKey) {
-      url.searchParams.append('api_key', apiKey);
-    }
-    
-    this.eventSource = new EventSource(url.toString());
-    this.setupListeners();
+    this.fetch = resolveTransport(transport).fetch;
+    this.logger = options.logger ?? createLogger();
+    this.instrumentation = options.instrumentation ?? noopInstrumentation;
+    this.strict = options.strict ?? false;
+    this.endpoint = url.toString();
+    this.apiKey = apiKey;
+    this.backfill = options.backfill;
+    this.idleTimeout = options.idleTimeout;
+
+    void this.connect();
   }
 
-  private setupListeners() {
-    this.eventSource.onopen = () => {
-      this.emit('open');
+  private async connect(): Promise<void> {
+    if (this.state === StreamConnection.CLOSED) {
+      return;
+    }
+    const controller = new AbortController();
+    this.controller = controller;
+    this.state = StreamConnection.CONNECTING;
+    this.resetIdleTimer();
+
+    try {
+      const response = await this.fetch(this.endpoint, { headers: this.buildHeaders(), signal: controller.signal });
+      if (controller.signal.aborted) {
+        await response.body?.cancel(); // Closed while connecting, by a transport that ignores the signal
+        return;
+      }
+      if (!response.ok || !response.body) {
+        await response.body?.cancel();
+        this.handleFailedResponse(response.status);
+        return;
+      }
+      if (!(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+        await response.body.cancel();
+        this.fail(new QuicksilverError(`Expected text/event-stream, received ${response.headers.get('content-type')}`));
+        return;
+      }
+
+      this.state = StreamConnection.OPEN;
+      this.openedAt = Date.now();
+      this.logger.debug({ url: this.endpoint, reconnectAttempts: this.reconnectAttempts }, 'SSE connected');
       this.reconnectAttempts = 0; // Reset reconnect attempts on successful connection
-      this.reconnectDelay = 1000; // Reset delay
-    };
+      this.reconnectDelay = this.initialReconnectDelay;
+      this.emit('open');
 
-    this.eventSource.onerror = (error) => {
-      this.emit('error', error);
-      
-      // Handle reconnection logic
-      if (this.eventSource.readyState === EventSource.CLOSED && !this.isReconnecting) {
-        this.handleReconnection();
+      if (this.connected) {
+        this.reconnects++;
+        this.emit('reconnected');
+        // Without an ID to resume from, anything sent while disconnected is lost
+        if (this.latestEventId === '') {
+          void this.reportGap();
+        }
       }
-    };
+      this.connected = true;
 
-    this.eventSource.addEventListener('stream_event', (event) => {
-      try {
-        const data: SSEStreamEvent = JSON.parse(event.data);
-        this.emit('stream_event', data);
-      } catch (error) {
-        this.emit('error', new Error(`Failed to parse stream_event: ${error}`));
+      await this.read(response.body);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return; // Closed by the caller, or abandoned as idle
       }
-    });
+      this.emitError(new NetworkError(`SSE connection failed: ${error instanceof Error ? error.message : error}`,
+        error instanceof Error ? error : undefined));
+    }
 
-    this.eventSource.addEventListener('batch_created', (event) => {
-      try {
-        const data: SSEBatchCreatedEvent = JSON.parse(event.data);
-        this.emit('batch_created', data);
-      } catch (error) {
-        this.emit('error', new Error(`Failed to parse batch_created: ${error}`));
+    if (!controller.signal.aborted) {
+      this.handleReconnection();
+    }
+  }
+
+  private async read(body: ReadableStream<Uint8Array>): Promise<void> {
+    const parser = new EventStreamParser();
+    const decoder = new TextDecoder();
+    const reader = body.getReader();
+    // Events carry the last ID forward, so only a change means the server sent one
+    let previousId = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      this.resetIdleTimer();
+      for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+        if (event.id !== previousId) {
+          const first = previousId === '';
+          previousId = event.id;
+          if (!this.advanceSequence(event.id, first)) {
+            continue;
+          }
+        }
+        this.dispatch(event);
+      }
+      if (parser.retry !== undefined) {
+        this.initialReconnectDelay = parser.retry;
+        this.reconnectDelay = parser.retry;
+        parser.retry = undefined;
+      }
+    }
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      ...(this.latestEventId && { 'Last-Event-ID': this.latestEventId }),
+    };
+  }
+
+  /**
+   * Like EventSource, give up on client errors but retry server errors
+   */
+  private handleFailedResponse(status: number) {
+    if (status >= 500 || status === 429) {
+      this.emitError(new QuicksilverError(`SSE connection failed with status ${status}`, status));
+      this.handleReconnection();
+      return;
+    }
+    this.fail(status === 401 || status === 403
+      ? new AuthenticationError()
+      : new QuicksilverError(`SSE connection failed with status ${status}`, status));
+  }
+
+  private dispatch(event: ServerSentEvent) {
+    this.lastEventAt = new Date();
+    this.eventsReceived[event.event] = (this.eventsReceived[event.event] ?? 0) + 1;
+
+    if (event.event === 'message') {
+      this.countEvent('message');
+      this.emit('message', parseData(event.data));
+      return;
+    }
+
+    if (event.event === HEARTBEAT_EVENT) {
+      this.emit('heartbeat');
+      return;
+    }
+
+    if (!(event.event in SSE_EVENT_SCHEMAS)) {
+      this.emit('unknown', event.event, parseData(event.data));
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch (error) {
+      this.countEvent(event.event, error);
+      this.logger.warn({ url: this.endpoint, event: event.event, error }, 'Failed to parse SSE event');
+      this.emitError(new Error(`Failed to parse ${event.event}: ${error}`));
+      return;
+    }
+
+    this.countEvent(event.event);
+    if (this.isValid(event.event, data)) {
+      this.trackStream(data);
+      this.emit(event.event, data);
+    }
+  }
+
+  /**
+   * Record a new event ID, detecting gaps and replays when IDs are numeric.
+   * Returns false for an event that was already delivered. A connection that
+   * starts at or before the first ID ever received means the server reset
+   * its IDs or ignored Last-Event-ID, so the events it sends are not told
+   * apart from replays; a gap is reported so that the state is backfilled.
+   */
+  private advanceSequence(id: string, first: boolean): boolean {
+    if (this.firstEventId === '') {
+      this.firstEventId = id;
+    }
+    if (SEQUENCE_PATTERN.test(id) && SEQUENCE_PATTERN.test(this.latestEventId)) {
+      const last = BigInt(this.latestEventId);
+      const received = BigInt(id);
+      if (received <= last) {
+        if (first && SEQUENCE_PATTERN.test(this.firstEventId) && received <= BigInt(this.firstEventId)) {
+          this.logger.info({ url: this.endpoint, id, lastEventId: this.latestEventId }, 'SSE event IDs started over');
+          void this.reportGap(id);
+        } else {
+          this.logger.debug({ url: this.endpoint, id, lastEventId: this.latestEventId }, 'Dropping replayed SSE event');
+        }
+        return false;
+      }
+      if (received > last + 1n) {
+        void this.reportGap(id);
       }
-    });
+    }
+
+    this.latestEventId = id;
+    return true;
+  }
 
-    // Handle custom events
-    this.eventSource.addEventListener('message', (event) => {
+  private trackStream(data: unknown) {
+    const streamId = (data as { stream_id?: unknown } | null)?.stream_id;
+    if (typeof streamId === 'string') {
+      this.streamIds.add(streamId);
+    }
+  }
+
+  /**
+   * Backfill the state of the streams seen so far and emit a 'gap'
+   */
+  private async reportGap(resumedEventId?: string): Promise<void> {
+    const lastEventId = this.latestEventId;
+    this.logger.warn({ url: this.endpoint, lastEventId, resumedEventId }, 'SSE events missed, backfilling');
+
+    let streams: StreamingTransaction[] = [];
+    if (this.backfill) {
       try {
-        const data = JSON.parse(event.data);
-        this.emit('message', data);
+        streams = await this.backfill([...this.streamIds]);
       } catch (error) {
-        // If it's not JSON, emit as raw message
-        this.emit('message', event.data);
+        this.logger.error({ url: this.endpoint, error }, 'SSE backfill failed');
+        this.emitError(error instanceof Error ? error : new Error(`SSE backfill failed: ${error}`));
       }
-    });
+    }
+
+    if (this.state !== StreamConnection.CLOSED) {
+      this.emit('gap', { lastEventId, ...(resumedEventId !== undefined && { resumedEventId }), streams });
+    }
+  }
+
+  /**
+   * In strict mode, check an event payload against its schema
+   */
+  private isValid(event: string, data: unknown): boolean {
+    const schema = SSE_EVENT_SCHEMAS[event];
+    if (!this.strict || !schema) {
+      return true;
+    }
+
+    const issues = validate(schema, data);
+    if (issues.length === 0) {
+      return true;
+    }
+    this.logger.warn({ url: this.endpoint, event, issues }, 'Invalid SSE event payload');
+    this.emitError(new ResponseValidationError(`SSE event ${event}`, issues));
+    return false;
+  }
+
+  private countEvent(event: string, error?: unknown) {
+    this.instrumentation.incrementCounter(SSE_EVENTS_METRIC, 1, error === undefined
+      ? { event }
+      : { event, 'error.type': error instanceof Error ? error.name : 'Error' });
   }
 
   private handleReconnection() {
+    if (this.state === StreamConnection.CLOSED) {
+      return;
+    }
+    this.state = StreamConnection.CONNECTING;
+    clearTimeout(this.idleTimer);
+
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      this.emit('error', new Error('Max reconnection attempts reached'));
+      this.logger.error({ url: this.endpoint, attempts: this.reconnectAttempts }, 'SSE reconnection attempts exhausted');
+      this.fail(new Error('Max reconnection attempts reached'));
       return;
     }
 
-    this.isReconnecting = true;
     this.reconnectAttempts++;
+    this.logger.warn(
+      { url: this.endpoint, attempt: this.reconnectAttempts, delayMs: this.reconnectDelay },
+      'SSE connection lost, reconnecting'
+    );
 
-    setTimeout(() => {
-      try {
-        // Create new EventSource with same URL
-        const url = new URL(this.eventSource.url);
-        this.eventSource.close();
-        this.eventSource = new EventSource(url.toString());
-        this.setupListeners();
-        this.isReconnecting = false;
-      } catch (error) {
-        this.isReconnecting = false;
-        this.emit('error', new Error(`Reconnection failed: ${error}`));
-      }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      void this.connect();
     }, this.reconnectDelay);
+    this.emit('reconnecting', this.reconnectAttempts, this.reconnectDelay);
 
     // Exponential backoff
-    this.reconnectDelay = Math.min(this.reconnectDelay * 2, 30000); // Max 30 seconds
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  private resetIdleTimer() {
+    clearTimeout(this.idleTimer);
+    if (this.idleTimeout !== undefined) {
+      this.idleTimer = setTimeout(() => this.handleIdle(), this.idleTimeout);
+    }
+  }
+
+  /**
+   * Nothing has arrived for too long, so assume the connection is dead
+   * without having errored, and replace it
+   */
+  private handleIdle() {
+    this.idleTimer = undefined;
+    this.logger.warn({ url: this.endpoint, idleTimeout: this.idleTimeout }, 'SSE connection idle, reconnecting');
+    this.emit('stale', this.idleTimeout);
+    this.controller?.abort();
+    this.handleReconnection();
+  }
+
+  /**
+   * Stop for good after an error that reconnecting won't fix
+   */
+  private fail(error: Error) {
+    this.state = StreamConnection.CLOSED;
+    clearTimeout(this.idleTimer);
+    this.emitError(error);
+  }
+
+  // An 'error' event without listeners would throw from inside the read loop
+  private emitError(error: Error) {
+    if (this.listenerCount('error') > 0) {
+      this.emit('error', error);
+    }
   }
 
   /**
-   * Get the current connection state
+   * Get the current connection state: CONNECTING (0), OPEN (1) or CLOSED (2)
    */
   get readyState(): number {
-    return this.eventSource.readyState;
+    return this.state;
+  }
+
+  /**
+   * Get the ID of the last event received, or '' if the server hasn't sent one
+   */
+  get lastEventId(): string {
+    return this.latestEventId;
+  }
+
+  /**
+   * Get connection statistics
+   */
+  getStats(): StreamStats {
+    return {
+      uptime: this.state === StreamConnection.OPEN ? Date.now() - this.openedAt : 0,
+      reconnects: this.reconnects,
+      ...(this.lastEventAt && { lastEventAt: this.lastEventAt }),
+      eventsReceived: { ...this.eventsReceived },
+    };
   }
 
   /**
    * Get the connection URL
    */
   get url(): string {
-    return this.eventSource.url;
+    return this.endpoint;
   }
 
   /**
    * Closes the connection to the server.
    */
   public close() {
-    this.eventSource.close();
+    this.state = StreamConnection.CLOSED;
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.idleTimer);
+    this.controller?.abort();
     this.emit('close');
   }
 
@@ -136,6 +480,26 @@ export class StreamConnection extends EventEmitter {
    * Set the initial reconnection delay
    */
   public setReconnectDelay(delay: number) {
+    this.initialReconnectDelay = delay;
     this.reconnectDelay = delay;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Set the idle timeout in milliseconds, or undefined to disable it
+   */
+  public setIdleTimeout(timeout: number | undefined) {
+    this.idleTimeout = timeout;
+    if (this.state !== StreamConnection.CLOSED) {
+      this.resetIdleTimer();
+    }
+  }
+}
+
+// JSON payloads are parsed, anything else is passed through as text
+function parseData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
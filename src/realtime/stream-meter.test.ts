@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, setSystemTime } from "bun:test";
+import { StreamMeter } from "./stream-meter";
+import { StreamSubscription } from "./subscription-manager";
+import { Money } from "../money";
+import type { StreamingTransaction } from "../types";
+
+const T0 = new Date("2025-01-01T00:00:00Z").getTime();
+
+function streamingTransaction(overrides: Partial<StreamingTransaction> = {}): StreamingTransaction {
+  return {
+    base: { id: "tx_1", currency: "USD", state: "Executing" } as StreamingTransaction["base"],
+    rate: 0.6,
+    rate_unit: "PerMinute",
+    start_time: new Date(T0).toISOString(),
+    accumulated: 1,
+    last_batch: "b_0",
+    ...overrides,
+  };
+}
+
+function at(seconds: number) {
+  setSystemTime(new Date(T0 + seconds * 1000));
+}
+
+function streamEvent(subscription: StreamSubscription, event_type: string, stream_id = "s_1") {
+  subscription.emit("stream_event", { stream_id, event_type, timestamp: new Date().toISOString() });
+}
+
+describe("StreamMeter", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  it("should interpolate time-based rates from the last known state", () => {
+    at(0);
+    const meter = new StreamMeter("s_1", streamingTransaction(), undefined, { tickInterval: 0 });
+
+    at(30);
+    expect(meter.accrued.toString()).toBe("1.30");
+    at(31);
+    expect(meter.accrued.toString()).toBe("1.31");
+    expect(meter.state).toBe("running");
+  });
+
+  it("should not accrue before the stream's start time", () => {
+    at(0);
+    const meter = new StreamMeter("s_1", streamingTransaction({ start_time: new Date(T0 + 3600_000).toISOString() }), undefined, { tickInterval: 0 });
+
+    at(1800);
+    expect(meter.accrued.toString()).toBe("1.00");
+    at(3630);
+    expect(meter.accrued.toString()).toBe("1.30");
+  });
+
+  it("should wait for a stream that hasn't started", () => {
+    at(0);
+    const subscription = new StreamSubscription("s_1", () => {});
+    const stream = streamingTransaction({ base: { id: "tx_1", currency: "USD", state: "Pending" } as StreamingTransaction["base"] });
+    const meter = new StreamMeter("s_1", stream, subscription, { tickInterval: 0 });
+
+    at(60);
+    expect(meter.state).toBe("pending");
+    expect(meter.accrued.toString()).toBe("1.00");
+
+    streamEvent(subscription, "streamstarted");
+    at(90);
+    expect(meter.state).toBe("running");
+    expect(meter.accrued.toString()).toBe("1.30");
+  });
+
+  it("should follow pause, resume and stop events without double counting at the next batch", () => {
+    at(0);
+    const subscription = new StreamSubscription("s_1", () => {});
+    const meter = new StreamMeter("s_1", streamingTransaction(), subscription, { tickInterval: 0 });
+    const states: string[] = [];
+    meter.on("state", state => states.push(state));
+
+    at(30);
+    streamEvent(subscription, "paused");
+    at(60);
+    expect(meter.accrued.toString()).toBe("1.30");
+
+    streamEvent(subscription, "resumed");
+    at(90);
+    expect(meter.accrued.toString()).toBe("1.60");
+
+    // The batch settles both running periods since the last one
+    subscription.emit("batch_created", { stream_id: "s_1", batch_transaction_id: "b_1", amount: 0.6, timestamp: "" });
+    expect(meter.accrued.toString()).toBe("1.60");
+    at(120);
+    expect(meter.accrued.toString()).toBe("1.90");
+
+    streamEvent(subscription, "stopped");
+    streamEvent(subscription, "resumed");
+    at(180);
+    expect(meter.accrued.toString()).toBe("1.90");
+    expect(states).toEqual(["paused", "running", "stopped"]);
+  });
+
+  it("should accrue per-token rates from recorded usage", () => {
+    at(0);
+    const meter = new StreamMeter("s_1", streamingTransaction({ rate: Money.of("0.002"), rate_unit: "PerToken", accumulated: 0 }));
+    const ticks: string[] = [];
+    meter.on("tick", accrued => ticks.push(accrued.toString()));
+
+    meter.recordUsage(100);
+    at(600);
+    meter.recordUsage(250);
+
+    expect(ticks).toEqual(["0.20", "0.70"]);
+    expect(meter.accrued.toString()).toBe("0.70");
+  });
+
+  it("should stop at the stream's end time", () => {
+    at(0);
+    const meter = new StreamMeter("s_1", streamingTransaction({ end_time: new Date(T0 + 10_000).toISOString() }), undefined, { tickInterval: 0 });
+
+    at(60);
+
+    expect(meter.accrued.toString()).toBe("1.10");
+  });
+
+  it("should ignore other streams and stop listening when closed", () => {
+    at(0);
+    const subscription = new StreamSubscription("s_1", () => {});
+    const meter = new StreamMeter("s_1", streamingTransaction(), subscription, { tickInterval: 0 });
+
+    streamEvent(subscription, "paused", "s_2");
+    expect(meter.state).toBe("running");
+
+    meter.close();
+    streamEvent(subscription, "paused");
+    expect(meter.state).toBe("running");
+    expect(subscription.listenerCount("stream_event")).toBe(0);
+  });
+
+  it("should emit ticks while running", async () => {
+    const meter = new StreamMeter("s_1", streamingTransaction(), undefined, { tickInterval: 5 });
+
+    const accrued = await new Promise(resolve => meter.once("tick", resolve));
+    meter.close();
+
+    expect(accrued).toBeInstanceOf(Money);
+  });
+});
@@ -0,0 +1,216 @@
+import { EventEmitter } from 'events';
+import type { SSEStreamEvent, SSEBatchCreatedEvent, StreamingTransaction, Amount, Currency } from '../types';
+import { Money } from '../money';
+import type { StreamConnection } from './sse';
+import type { StreamSubscription } from './subscription-manager';
+
+export type MeterState = 'pending' | 'running' | 'paused' | 'stopped';
+
+export interface StreamMeterOptions {
+  /** Milliseconds between 'tick' events while a time-based stream runs. Defaults to 1000; 0 disables ticking. */
+  tickInterval?: number;
+}
+
+const DEFAULT_TICK_INTERVAL = 1000;
+
+// Milliseconds per rate unit; other units are charged per unit of usage
+const UNIT_DURATIONS: Partial<Record<string, number>> = {
+  PerSecond: 1000,
+  PerMinute: 60 * 1000,
+  PerHour: 60 * 60 * 1000,
+};
+
+const FINAL_TRANSACTION_STATES = new Set(['Completed', 'Failed', 'Cancelled']);
+
+type Handler =
+  | ['stream_event', (data: SSEStreamEvent) => void]
+  | ['batch_created', (data: SSEBatchCreatedEvent) => void];
+
+/**
+ * Estimates what a streaming payment has accrued so far, without polling.
+ * Starts from the stream's state as fetched, follows pause, resume and stop
+ * events, and resyncs to the settled total on every `batch_created` event.
+ * Between batches, time-based rates are interpolated from the clock, while
+ * per-word, per-token and custom rates accrue as usage is recorded.
+ *
+ * The estimate is for display: the settled amount is what batches charge.
+ */
+export class StreamMeter extends EventEmitter {
+  private readonly currency: Currency;
+  private readonly rate: Money;
+  private readonly unitDuration: number | undefined;
+  private readonly endTime: number | undefined;
+  private readonly handlers: Handler[];
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private settled: Money;
+  private banked: Money;
+  private since: number;
+  private usage: number = 0;
+  private meterState: MeterState;
+
+  constructor(
+    public readonly streamId: string,
+    stream: StreamingTransaction,
+    private readonly source?: StreamConnection | StreamSubscription,
+    private readonly options: StreamMeterOptions = {}
+  ) {
+    super();
+    this.currency = stream.base.currency;
+    this.rate = this.toMoney(stream.rate);
+    this.unitDuration = UNIT_DURATIONS[rateUnitName(stream.rate_unit)];
+    this.endTime = stream.end_time ? Date.parse(stream.end_time) : undefined;
+    this.settled = this.toMoney(stream.accumulated);
+    this.banked = Money.zero(this.currency);
+    // Nothing accrues before the stream's start time, even once it is executing
+    this.since = Math.max(Date.now(), Date.parse(stream.start_time) || 0);
+    this.meterState = initialState(stream);
+
+    this.handlers = [
+      ['stream_event', (data: SSEStreamEvent) => data.stream_id === streamId && this.handleStreamEvent(data)],
+      ['batch_created', (data: SSEBatchCreatedEvent) => data.stream_id === streamId && this.handleBatch(data)],
+    ];
+    for (const [event, listener] of this.handlers) {
+      source?.on(event, listener);
+    }
+    this.updateTimer();
+  }
+
+  /**
+   * The estimated amount accrued so far, rounded down to the currency's precision
+   */
+  get accrued(): Money {
+    return this.settled.plus(this.banked).plus(this.pending()).round('down');
+  }
+
+  /**
+   * Whether the stream is accruing
+   */
+  get state(): MeterState {
+    return this.meterState;
+  }
+
+  /**
+   * Record usage for a per-word, per-token or custom rate, e.g. the tokens
+   * of a response as they are generated
+   * @param units - Units used since the last call.
+   */
+  recordUsage(units: number) {
+    if (this.unitDuration !== undefined || this.meterState !== 'running') {
+      return;
+    }
+    this.usage += units;
+    this.emit('tick', this.accrued);
+  }
+
+  /**
+   * Start over from a freshly fetched state, e.g. after a 'gap'
+   */
+  sync(stream: StreamingTransaction) {
+    this.settled = this.toMoney(stream.accumulated);
+    this.banked = Money.zero(this.currency);
+    this.since = Date.now();
+    this.usage = 0;
+    if (FINAL_TRANSACTION_STATES.has(stream.base.state)) {
+      this.setState('stopped');
+    }
+    this.emit('tick', this.accrued);
+  }
+
+  /**
+   * Stop listening for events and ticking
+   */
+  close() {
+    for (const [event, listener] of this.handlers) {
+      this.source?.off(event, listener);
+    }
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.emit('close');
+  }
+
+  private handleStreamEvent(event: SSEStreamEvent) {
+    switch (event.event_type) {
+      case 'paused':
+        this.setState('paused');
+        break;
+      case 'resumed':
+      case 'streamstarted':
+        this.setState('running');
+        break;
+      case 'stopped':
+      case 'completed':
+        this.setState('stopped');
+        break;
+    }
+  }
+
+  private handleBatch(batch: SSEBatchCreatedEvent) {
+    // The batch settles what accrued since the previous one, so interpolate afresh from here
+    this.settled = this.settled.plus(this.toMoney(batch.amount));
+    this.banked = Money.zero(this.currency);
+    this.since = Date.now();
+    this.usage = 0;
+    this.emit('tick', this.accrued);
+  }
+
+  private setState(state: MeterState) {
+    if (state === this.meterState || this.meterState === 'stopped') {
+      return;
+    }
+    // Keep what accrued while running until a batch settles it, and restart the clock
+    this.banked = this.banked.plus(this.pending());
+    this.since = Date.now();
+    this.usage = 0;
+    this.meterState = state;
+    this.updateTimer();
+    this.emit('state', state);
+    this.emit('tick', this.accrued);
+  }
+
+  /**
+   * Accrued since the last batch or state change
+   */
+  private pending(): Money {
+    if (this.meterState !== 'running') {
+      return Money.zero(this.currency);
+    }
+    if (this.unitDuration === undefined) {
+      return this.rate.times(this.usage);
+    }
+
+    const until = this.endTime === undefined ? Date.now() : Math.min(Date.now(), this.endTime);
+    const elapsed = Math.max(0, until - this.since);
+    return this.rate.times(elapsed).dividedBy(this.unitDuration, 'down');
+  }
+
+  private updateTimer() {
+    const interval = this.options.tickInterval ?? DEFAULT_TICK_INTERVAL;
+    const ticking = this.meterState === 'running' && this.unitDuration !== undefined && interval > 0;
+    if (ticking && !this.timer) {
+      this.timer = setInterval(() => this.emit('tick', this.accrued), interval);
+      this.timer.unref?.(); // Ticking alone shouldn't keep the process alive
+    } else if (!ticking && this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private toMoney(amount: Amount): Money {
+    return Money.isMoney(amount) ? amount : Money.of(amount, this.currency);
+  }
+}
+
+/**
+ * Only an executing stream accrues; one that hasn't started waits for a
+ * 'streamstarted' or 'resumed' event
+ */
+function initialState(stream: StreamingTransaction): MeterState {
+  if (FINAL_TRANSACTION_STATES.has(stream.base.state)) {
+    return 'stopped';
+  }
+  return stream.base.state === 'Executing' ? 'running' : 'pending';
+}
+
+function rateUnitName(unit: StreamingTransaction['rate_unit']): string {
+  return typeof unit === 'string' ? unit : 'Custom';
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, mock } from "bun:test";
+import { SubscriptionManager } from "./subscription-manager";
+import { StreamConnection } from "./sse";
+
+const BASE_URL = "https://api.quicksilver.com";
+
+// A response that sends the given chunks and then stays open until aborted
+function openResponse(chunks: string[], init?: RequestInit): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      init?.signal?.addEventListener("abort", () => controller.error(new Error("aborted")));
+    },
+  });
+  return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+function setup(chunks: string[] = []) {
+  const fetch = mock((_url: string | URL | Request, init?: RequestInit) => Promise.resolve(openResponse(chunks, init)));
+  const connections: StreamConnection[] = [];
+  const manager = new SubscriptionManager(accountId => {
+    const path = accountId === undefined ? "/sse/streams" : `/sse/accounts/${accountId}/streams`;
+    const connection = new StreamConnection(new URL(`${BASE_URL}${path}`), "sk_test", { fetch });
+    connections.push(connection);
+    return connection;
+  });
+  return { fetch, connections, manager };
+}
+
+const batch = (streamId: string, batchId: string) =>
+  `event: batch_created\ndata: {"stream_id":"${streamId}","batch_transaction_id":"${batchId}","amount":1}\n\n`;
+
+describe("SubscriptionManager", () => {
+  it("should route events from one shared connection by stream ID", async () => {
+    const { fetch, manager } = setup([batch("s_1", "b_1"), batch("s_2", "b_2"), batch("s_3", "b_3"), batch("s_1", "b_4")]);
+    const first = manager.subscribe("s_1");
+    const second = manager.subscribe("s_2");
+    const received: string[] = [];
+    first.on("batch_created", data => received.push(`s_1:${data.batch_transaction_id}`));
+    second.on("batch_created", data => received.push(`s_2:${data.batch_transaction_id}`));
+
+    await new Promise<void>(resolve => first.on("batch_created", data => data.batch_transaction_id === "b_4" && resolve()));
+    manager.close();
+
+    expect(received).toEqual(["s_1:b_1", "s_2:b_2", "s_1:b_4"]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch.mock.calls[0]![0]).toBe(`${BASE_URL}/sse/streams`);
+  });
+
+  it("should close the connection when the last subscription is released", () => {
+    const { connections, manager } = setup();
+    const first = manager.subscribe("s_1");
+    const second = manager.subscribe("s_1");
+
+    first.unsubscribe();
+    first.unsubscribe();
+    expect(connections[0]!.readyState).not.toBe(StreamConnection.CLOSED);
+
+    second.unsubscribe();
+    expect(connections[0]!.readyState).toBe(StreamConnection.CLOSED);
+    expect(second.closed).toBe(true);
+    expect(manager.connectionCount).toBe(0);
+
+    manager.subscribe("s_1").unsubscribe();
+    expect(connections).toHaveLength(2);
+  });
+
+  it("should end every subscription of a connection that fails for good", async () => {
+    const { fetch, manager } = setup();
+    fetch.mockImplementationOnce(() => Promise.resolve(new Response(null, { status: 403 })));
+    const first = manager.subscribe("s_1");
+    const second = manager.subscribe("s_2");
+    const errors: Error[] = [];
+    first.on("error", error => errors.push(error));
+    const closed = Promise.all([first, second].map(subscription => new Promise(resolve => subscription.once("close", resolve))));
+
+    await closed;
+
+    expect(errors).toHaveLength(1);
+    expect(first.closed).toBe(true);
+    expect(second.closed).toBe(true);
+    expect(manager.connectionCount).toBe(0);
+
+    manager.subscribe("s_1");
+    expect(fetch).toHaveBeenCalledTimes(2);
+    manager.close();
+  });
+
+  it("should keep account-scoped subscriptions on their own connection", () => {
+    const { fetch, manager } = setup();
+
+    manager.subscribe("s_1");
+    manager.subscribe("s_2", { accountId: "acc_1" });
+    manager.subscribe("s_3", { accountId: "acc_1" });
+    manager.subscribe("s_4", { accountId: "acc_2" });
+
+    expect(manager.connectionCount).toBe(3);
+    expect(fetch.mock.calls.map(call => call[0])).toEqual([
+      `${BASE_URL}/sse/streams`,
+      `${BASE_URL}/sse/accounts/acc_1/streams`,
+      `${BASE_URL}/sse/accounts/acc_2/streams`,
+    ]);
+    manager.close();
+    expect(manager.connectionCount).toBe(0);
+  });
+});
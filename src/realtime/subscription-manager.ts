@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import type { SSEStreamEvent, SSEBatchCreatedEvent } from '../types';
+import { StreamConnection } from './sse';
+import type { StreamGap } from './sse';
+
+/**
+ * Opens the connection for a scope: one account's streams, or all streams
+ * when no account is given
+ */
+export type ConnectionFactory = (accountId?: string) => StreamConnection;
+
+export interface SubscribeOptions {
+  /** Share the account's connection instead of the one for all streams */
+  accountId?: string;
+}
+
+/**
+ * Events for a single stream, delivered over a shared connection
+ */
+export class StreamSubscription extends EventEmitter {
+  private active: boolean = true;
+
+  constructor(public readonly streamId: string, private readonly release: (subscription: StreamSubscription) => void) {
+    super();
+  }
+
+  override on(event: 'stream_event', listener: (data: SSEStreamEvent) => void): this;
+  override on(event: 'batch_created', listener: (data: SSEBatchCreatedEvent) => void): this;
+  override on(event: 'error', listener: (error: Error) => void): this;
+  override on(event: 'gap', listener: (gap: StreamGap) => void): this;
+  override on(event: 'reconnected', listener: () => void): this;
+  override on(event: 'close', listener: () => void): this;
+  override on(event: string, listener: (...args: unknown[]) => void): this;
+  override on(event: string, listener: Parameters<EventEmitter['on']>[1]): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Whether the subscription is still receiving events
+   */
+  get closed(): boolean {
+    return !this.active;
+  }
+
+  /**
+   * Stop receiving events. The shared connection is closed once its last
+   * subscription is gone.
+   */
+  unsubscribe() {
+    if (!this.active) {
+      return;
+    }
+    this.active = false;
+    this.release(this);
+    this.emit('close');
+  }
+}
+
+interface SharedConnection {
+  connection: StreamConnection;
+  subscriptions: Map<string, Set<StreamSubscription>>;
+  refs: number;
+}
+
+/**
+ * Multiplexes per-stream subscriptions over as few SSE connections as
+ * possible: one for all streams, plus one per account that is subscribed
+ * to by account. Events are routed to subscriptions by `stream_id`.
+ * Connections are opened by the first subscription in their scope and
+ * closed when the last one unsubscribes. If a connection fails for good,
+ * e.g. on a 403, its subscriptions get the error and are closed.
+ */
+export class SubscriptionManager {
+  private readonly connections = new Map<string, SharedConnection>();
+
+  constructor(private readonly openConnection: ConnectionFactory) {}
+
+  /**
+   * Subscribe to the events of one stream.
+   * @param streamId - The ID of the stream.
+   * @param options - Which connection to share.
+   */
+  subscribe(streamId: string, options: SubscribeOptions = {}): StreamSubscription {
+    const key = options.accountId ?? '';
+    const shared = this.connections.get(key) ?? this.open(key, options.accountId);
+
+    const subscription = new StreamSubscription(streamId, released => this.release(key, shared, released));
+    const subscriptions = shared.subscriptions.get(streamId) ?? new Set();
+    subscriptions.add(subscription);
+    shared.subscriptions.set(streamId, subscriptions);
+    shared.refs++;
+    return subscription;
+  }
+
+  /**
+   * Number of open connections
+   */
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /**
+   * Close every connection and end all subscriptions
+   */
+  close() {
+    for (const shared of [...this.connections.values()]) {
+      for (const subscriptions of [...shared.subscriptions.values()]) {
+        subscriptions.forEach(subscription => subscription.unsubscribe());
+      }
+    }
+  }
+
+  private open(key: string, accountId?: string): SharedConnection {
+    const connection = this.openConnection(accountId);
+    const shared: SharedConnection = { connection, subscriptions: new Map(), refs: 0 };
+    const forEach = (callback: (subscription: StreamSubscription) => void) => {
+      for (const subscriptions of shared.subscriptions.values()) {
+        subscriptions.forEach(callback);
+      }
+    };
+
+    connection.on('stream_event', data => this.route(shared, 'stream_event', data));
+    connection.on('batch_created', data => this.route(shared, 'batch_created', data));
+    connection.on('gap', gap => forEach(subscription => subscription.emit('gap', gap)));
+    connection.on('reconnected', () => forEach(subscription => subscription.emit('reconnected')));
+    connection.on('error', error => {
+      const failed = connection.readyState === StreamConnection.CLOSED;
+      // A connection that gave up is dropped, so the next subscription opens a fresh one
+      if (failed && this.connections.get(key) === shared) {
+        this.connections.delete(key);
+      }
+      forEach(subscription => {
+        if (subscription.listenerCount('error') > 0) {
+          subscription.emit('error', error);
+        }
+      });
+      // Its subscriptions end with it, rather than waiting for events that never come
+      if (failed) {
+        const subscriptions: StreamSubscription[] = [];
+        forEach(subscription => subscriptions.push(subscription));
+        subscriptions.forEach(subscription => subscription.unsubscribe());
+      }
+    });
+
+    this.connections.set(key, shared);
+    return shared;
+  }
+
+  private route(shared: SharedConnection, event: string, data: SSEStreamEvent | SSEBatchCreatedEvent) {
+    shared.subscriptions.get(data.stream_id)?.forEach(subscription => subscription.emit(event, data));
+  }
+
+  private release(key: string, shared: SharedConnection, subscription: StreamSubscription) {
+    const subscriptions = shared.subscriptions.get(subscription.streamId);
+    if (!subscriptions?.delete(subscription)) {
+      return;
+    }
+    if (subscriptions.size === 0) {
+      shared.subscriptions.delete(subscription.streamId);
+    }
+
+    shared.refs--;
+    if (shared.refs === 0) {
+      if (this.connections.get(key) === shared) {
+        this.connections.delete(key);
+      }
+      shared.connection.close();
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { moneyReplacer } from './money';
+
+/**
+ * Upload progress passed to the onUploadProgress callback
+ */
+export interface UploadProgressEvent {
+  /** Bytes handed to the transport so far */
+  loaded: number;
+  /** Total size of the body in bytes, when known */
+  total?: number;
+}
+
+export interface EncodedBody {
+  body?: BodyInit;
+  /** Content-Type to send, or undefined to let fetch derive it (e.g. the multipart boundary) */
+  contentType?: string;
+  /** Whether the body is a stream, which fetch only sends with `duplex: 'half'` */
+  streaming: boolean;
+}
+
+const JSON_CONTENT_TYPE = 'application/json';
+const BINARY_CONTENT_TYPE = 'application/octet-stream';
+
+/**
+ * Encode request data for fetch. FormData is sent as multipart/form-data,
+ * Blobs, buffers and streams as raw bytes, and everything else as JSON.
+ */
+export async function encodeRequestBody(
+  data: unknown,
+  onUploadProgress?: (event: UploadProgressEvent) => void
+): Promise<EncodedBody> {
+  if (data === undefined) {
+    return { contentType: JSON_CONTENT_TYPE, streaming: false };
+  }
+
+  if (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams) {
+    return { body: data, streaming: false };
+  }
+
+  if (isReadableStream(data)) {
+    const body = onUploadProgress ? trackProgress(data, undefined, onUploadProgress) : data;
+    return { body, contentType: BINARY_CONTENT_TYPE, streaming: true };
+  }
+
+  if (isFormData(data)) {
+    if (!onUploadProgress) {
+      return { body: data, streaming: false };
+    }
+    // Serialize the multipart body up front to learn its size and boundary
+    const blob = await new Response(data).blob();
+    return {
+      body: trackProgress(blob.stream(), blob.size, onUploadProgress),
+      contentType: blob.type,
+      streaming: true,
+    };
+  }
+
+  if (isBlob(data) || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    const blob = isBlob(data) ? data : new Blob([data as BlobPart]);
+    const contentType = blob.type || BINARY_CONTENT_TYPE;
+    if (!onUploadProgress) {
+      return { body: blob, contentType, streaming: false };
+    }
+    return { body: trackProgress(blob.stream(), blob.size, onUploadProgress), contentType, streaming: true };
+  }
+
+  // Money amounts go to the engine as JSON numbers
+  return { body: JSON.stringify(data, moneyReplacer), contentType: JSON_CONTENT_TYPE, streaming: false };
+}
+
+/**
+ * Summarize request data for logs. Binary and multipart bodies are only
+ * described, never included.
+ */
+export function describeBody(data: unknown): unknown {
+  if (isFormData(data)) {
+    return '[FormData]';
+  }
+  if (isBlob(data)) {
+    return `[Blob: ${data.size} bytes]`;
+  }
+  if (isReadableStream(data)) {
+    return '[ReadableStream]';
+  }
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return `[Binary: ${data.byteLength} bytes]`;
+  }
+  return data;
+}
+
+/**
+ * Whether the data is a one-shot stream that can't be sent twice
+ */
+export function isReadableStream(data: unknown): data is ReadableStream<Uint8Array> {
+  return typeof ReadableStream !== 'undefined' && data instanceof ReadableStream;
+}
+
+function isFormData(data: unknown): data is FormData {
+  return typeof FormData !== 'undefined' && data instanceof FormData;
+}
+
+function isBlob(data: unknown): data is Blob {
+  return typeof Blob !== 'undefined' && data instanceof Blob;
+}
+
+/**
+ * Report progress as fetch consumes the stream
+ */
+function trackProgress(
+  source: ReadableStream<Uint8Array>,
+  total: number | undefined,
+  onUploadProgress: (event: UploadProgressEvent) => void
+): ReadableStream<Uint8Array> {
+  const reader = source.getReader();
+  let loaded = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.byteLength;
+      controller.enqueue(value);
+      onUploadProgress(total !== undefined ? { loaded, total } : { loaded });
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
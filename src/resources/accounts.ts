@@ -1,4 +1,8 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
+import { ApiPromise } from '../api-promise';
+import { PagePromise } from '../pagination';
+import { ROUTES, buildPath } from '../routes';
 import type { 
   Account as AccountData, 
   CreateAccountPayload, 
@@ -13,8 +17,9 @@ export class AccountsResource {
   /**
    * Create a new account.
    * @param payload - The details of the account to create.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async create(payload: CreateAccountPayload): Promise<Account> {
+  create(payload: CreateAccountPayload, config?: RequestConfig): ApiPromise<Account> {
     // Set root accounts (no parent_id) as verified by default
     const enhancedPayload = {
       ...payload,
@@ -28,59 +33,65 @@ export class AccountsResource {
       }
     };
 
-    const accountData = await this.httpClient.post<AccountData>('/accounts', enhancedPayload);
-    return new Account(accountData, this.httpClient);
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<AccountData>(ROUTES.createAccount, enhancedPayload))
+      .map(accountData => new Account(accountData, this.httpClient));
   }
 
   /**
    * Retrieve an account by its ID.
    * @param id - The ID of the account to retrieve.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async retrieve(id: string): Promise<Account> {
-    const accountData = await this.httpClient.get<AccountData>(`/accounts/${id}`);
-    return new Account(accountData, this.httpClient);
+  retrieve(id: string, config?: RequestConfig): ApiPromise<Account> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<AccountData>(buildPath(ROUTES.retrieveAccount, { id })))
+      .map(accountData => new Account(accountData, this.httpClient));
   }
 
   /**
    * List all accounts with optional pagination.
+   * Await the result for a single page, or iterate it with `for await` to walk every page.
    * @param params - Pagination parameters.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async list(params?: PaginationParams): Promise<PaginatedResponse<Account>> {
-    const response = await this.httpClient.get<PaginatedResponse<AccountData>>('/accounts', params);
-    return {
-      ...response,
-      data: response.data.map(accountData => new Account(accountData, this.httpClient))
-    };
+  list(params?: PaginationParams, config?: RequestConfig): PagePromise<Account> {
+    return PagePromise.paginate({ ...params }, pageParams => this.fetchAccounts(ROUTES.listAccounts, pageParams, config));
   }
 
   /**
    * Update an account.
    * @param id - The ID of the account to update.
    * @param payload - The updated account details.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async update(id: string, payload: Partial<CreateAccountPayload>): Promise<Account> {
-    const accountData = await this.httpClient.put<AccountData>(`/accounts/${id}`, payload);
-    return new Account(accountData, this.httpClient);
+  update(id: string, payload: Partial<CreateAccountPayload>, config?: RequestConfig): ApiPromise<Account> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).put<AccountData>(buildPath(ROUTES.updateAccount, { id }), payload))
+      .map(accountData => new Account(accountData, this.httpClient));
   }
 
   /**
    * Delete an account.
    * @param id - The ID of the account to delete.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async delete(id: string): Promise<void> {
-    await this.httpClient.delete(`/accounts/${id}`);
+  delete(id: string, config?: RequestConfig): ApiPromise<void> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).delete(buildPath(ROUTES.deleteAccount, { id }))).map(() => undefined);
   }
 
   /**
    * Get all child accounts of a parent account.
    * @param parentId - The ID of the parent account.
    * @param params - Pagination parameters.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async getChildren(parentId: string, params?: PaginationParams): Promise<PaginatedResponse<Account>> {
-    const response = await this.httpClient.get<PaginatedResponse<AccountData>>(`/accounts/${parentId}/children`, params);
-    return {
-      ...response,
-      data: response.data.map(accountData => new Account(accountData, this.httpClient))
-    };
+  getChildren(parentId: string, params?: PaginationParams, config?: RequestConfig): PagePromise<Account> {
+    return PagePromise.paginate({ ...params }, pageParams => this.fetchAccounts(buildPath(ROUTES.listChildAccounts, { id: parentId }), pageParams, config));
+  }
+
+  private fetchAccounts(url: string, params: PaginationParams, config?: RequestConfig): ApiPromise<PaginatedResponse<Account>> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<PaginatedResponse<AccountData>>(url, params))
+      .map(response => ({
+        ...response,
+        data: response.data.map(accountData => new Account(accountData, this.httpClient))
+      }));
   }
 } 
\ No newline at end of file
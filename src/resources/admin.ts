@@ -1,11 +1,11 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
+import { ApiPromise } from '../api-promise';
+import { ROUTES } from '../routes';
 import type { Account, Transaction, StreamingTransaction } from '../types';
+import type * as Api from '../generated/api';
 
-export interface SystemStats {
-  total_accounts: number;
-  total_transactions: number;
-  active_streams: number;
-}
+export type SystemStats = Api.SystemStats;
 
 /**
  * Admin resource for administrative operations.
@@ -17,35 +17,39 @@ export class AdminResource {
   /**
    * Get system statistics.
    * @returns System statistics including account and transaction counts.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async getStats(): Promise<SystemStats> {
-    return this.httpClient.get<SystemStats>('/admin/stats');
+  getStats(config?: RequestConfig): ApiPromise<SystemStats> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<SystemStats>(ROUTES.getSystemStats));
   }
 
   /**
    * List all accounts in the system.
    * Admin endpoint - requires admin privileges.
    * @returns List of all accounts.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async listAccounts(): Promise<Account[]> {
-    return this.httpClient.get<Account[]>('/admin/accounts');
+  listAccounts(config?: RequestConfig): ApiPromise<Account[]> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<Account[]>(ROUTES.adminListAccounts));
   }
 
   /**
    * List all transactions in the system.
    * Admin endpoint - requires admin privileges.
    * @returns List of all transactions.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async listTransactions(): Promise<Transaction[]> {
-    return this.httpClient.get<Transaction[]>('/admin/transactions');
+  listTransactions(config?: RequestConfig): ApiPromise<Transaction[]> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<Transaction[]>(ROUTES.adminListTransactions));
   }
 
   /**
    * List all active streaming transactions.
    * Admin endpoint - requires admin privileges.
    * @returns List of active streams.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async listActiveStreams(): Promise<StreamingTransaction[]> {
-    return this.httpClient.get<StreamingTransaction[]>('/admin/streams');
+  listActiveStreams(config?: RequestConfig): ApiPromise<StreamingTransaction[]> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<StreamingTransaction[]>(ROUTES.adminListStreams));
   }
 }
\ No newline at end of file
@@ -1,22 +1,14 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
+import { ApiPromise } from '../api-promise';
+import { ROUTES, buildPath } from '../routes';
+import type { Amount } from '../types';
+import type * as Api from '../generated/api';
 
-export interface GatewayInfo {
-  name: string;
-  type: string;
-  enabled: boolean;
-  supported_currencies?: string[];
-}
+export type GatewayInfo = Api.GatewayInfo;
 
-export interface GatewayTransaction {
-  id: string;
-  gateway: string;
-  status: 'pending' | 'completed' | 'failed';
-  amount: number;
-  currency: string;
-  external_id?: string;
-  error?: string;
-  created_at: string;
-  completed_at?: string;
+export interface GatewayTransaction extends Omit<Api.GatewayTransaction, 'amount'> {
+  amount: Amount;
 }
 
 /**
@@ -28,21 +20,23 @@ export class GatewaysResource {
   /**
    * List available payment gateways.
    * @returns List of available payment gateways.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async list(): Promise<GatewayInfo[]> {
-    const response = await this.httpClient.get<{ gateways: GatewayInfo[], count: number }>('/gateways');
-    return response.gateways;
+  list(config?: RequestConfig): ApiPromise<GatewayInfo[]> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<Api.GatewayList>(ROUTES.listGateways))
+      .map(response => response.gateways);
   }
 
   /**
    * Execute a transaction through a payment gateway.
    * @param transactionId - The ID of the transaction to execute.
    * @returns The gateway transaction result.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async executeTransaction(transactionId: string): Promise<GatewayTransaction> {
-    return this.httpClient.post<GatewayTransaction>(
-      `/transactions/${transactionId}/gateway/execute`, 
+  executeTransaction(transactionId: string, config?: RequestConfig): ApiPromise<GatewayTransaction> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<GatewayTransaction>(
+      buildPath(ROUTES.executeTransactionViaGateway, { id: transactionId }),
       {}
-    );
+    ));
   }
 }
\ No newline at end of file
@@ -1,19 +1,12 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
+import { ApiPromise } from '../api-promise';
+import { ROUTES } from '../routes';
+import type * as Api from '../generated/api';
 
-export interface HealthStatus {
-  status: 'healthy' | 'unhealthy';
-  timestamp: string;
-  version?: string;
-  services?: {
-    database: 'connected' | 'disconnected';
-    redis?: 'connected' | 'disconnected';
-  };
-}
+export type HealthStatus = Api.HealthStatus;
 
-export interface PingResponse {
-  message: string;
-  timestamp: string;
-}
+export type PingResponse = Api.PingResponse;
 
 /**
  * Resource for health check operations
@@ -23,15 +16,17 @@ export class HealthResource {
 
   /**
    * Check the health status of the service
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async check(): Promise<HealthStatus> {
-    return this.client.get<HealthStatus>('/health');
+  check(config?: RequestConfig): ApiPromise<HealthStatus> {
+    return ApiPromise.from(withRequestConfig(this.client, config).get<HealthStatus>(ROUTES.getHealth));
   }
 
   /**
    * Ping the service to check if it's responsive
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async ping(): Promise<PingResponse> {
-    return this.client.get<PingResponse>('/ping');
+  ping(config?: RequestConfig): ApiPromise<PingResponse> {
+    return ApiPromise.from(withRequestConfig(this.client, config).get<PingResponse>(ROUTES.ping));
   }
 }
\ No newline at end of file
@@ -65,4 +65,26 @@ describe('KycResource', () => {
       expect(result).toEqual(mockResponse);
     });
   });
-});
\ No newline at end of file
+
+  describe('uploadDocument()', () => {
+    it('should upload the document as multipart/form-data', async () => {
+      const mockAccount = { id: 'acc_123', verification: { status: 'pending' } };
+      httpClient.post = mock(() => Promise.resolve(mockAccount));
+      const scan = new Blob(['scan'], { type: 'image/png' });
+
+      const result = await kycResource.uploadDocument('acc_123', scan, {
+        document_type: 'passport',
+        document_number: 'X1234567',
+        filename: 'passport.png',
+      });
+
+      const [url, body] = (httpClient.post as any).mock.calls[0];
+      expect(url).toBe('/accounts/acc_123/kyc');
+      expect(body).toBeInstanceOf(FormData);
+      expect(body.get('document_type')).toBe('passport');
+      expect(body.get('document_number')).toBe('X1234567');
+      expect(body.get('document_file').name).toBe('passport.png');
+      expect(result).toEqual(mockAccount);
+    });
+  });
+});
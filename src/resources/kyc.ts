@@ -1,34 +1,22 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
+import { ApiPromise } from '../api-promise';
+import { ROUTES, buildPath } from '../routes';
+import type { Account } from '../types';
+import type * as Api from '../generated/api';
 
-export interface KycInitiatePayload {
-  account_id: string;
-  first_name: string;
-  last_name: string;
-  email: string;
-  date_of_birth?: string;
-  address?: {
-    street: string;
-    city: string;
-    state?: string;
-    postal_code: string;
-    country: string;
-  };
-}
+export type KycInitiatePayload = Api.KycInitiatePayload;
 
-export interface KycStatus {
-  account_id: string;
-  status: 'pending' | 'in_review' | 'verified' | 'rejected';
-  verified_at?: string;
-  rejection_reason?: string;
-  kyc_provider?: string;
-  kyc_data?: Record<string, any>;
-}
+export type KycStatus = Api.KycStatus;
+
+export type KycInitiateResponse = Api.KycInitiateResponse;
 
-export interface KycInitiateResponse {
-  success: boolean;
-  verification_url?: string;
-  session_id?: string;
-  message?: string;
+export interface KycDocumentMetadata {
+  /** e.g. 'passport', 'drivers_license' or 'national_id' */
+  document_type: string;
+  document_number?: string;
+  /** File name sent with the upload. Defaults to the name of the File, if any. */
+  filename?: string;
 }
 
 /**
@@ -41,26 +29,53 @@ export class KycResource {
   /**
    * Initiate KYC verification for an account.
    * @param payload - The KYC initiation details.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async initiate(payload: KycInitiatePayload): Promise<KycInitiateResponse> {
-    return this.httpClient.post<KycInitiateResponse>('/kyc/initiate', payload);
+  initiate(payload: KycInitiatePayload, config?: RequestConfig): ApiPromise<KycInitiateResponse> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<KycInitiateResponse>(ROUTES.initiateKyc, payload));
   }
 
   /**
    * Get KYC status for an account.
    * @param accountId - The ID of the account.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async getStatus(accountId: string): Promise<KycStatus> {
-    return this.httpClient.get<KycStatus>(`/kyc/status/${accountId}`);
+  getStatus(accountId: string, config?: RequestConfig): ApiPromise<KycStatus> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<KycStatus>(buildPath(ROUTES.getKycStatus, { accountId })));
   }
 
   /**
    * Process KYC webhook (internal use).
    * This is typically called by the KYC provider's webhook system.
    * @param webhookData - The webhook payload from the KYC provider.
+   * @param config - Per-request settings such as an abort signal or timeout.
    * @private
    */
-  async processWebhook(webhookData: any): Promise<{ success: boolean }> {
-    return this.httpClient.post<{ success: boolean }>('/kyc/webhook', webhookData);
+  processWebhook(webhookData: any, config?: RequestConfig): ApiPromise<{ success: boolean }> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<{ success: boolean }>(ROUTES.processKycWebhook, webhookData));
+  }
+
+  /**
+   * Upload an identity document, e.g. a passport scan, as multipart/form-data.
+   * @param accountId - The ID of the account being verified.
+   * @param file - The document, e.g. a File from a file input or a Blob read from disk.
+   * @param meta - Details about the document.
+   * @param config - Per-request settings, e.g. an onUploadProgress callback for large scans.
+   * @example
+   * await client.kyc.uploadDocument('acc_123', scan, { document_type: 'passport' }, {
+   *   onUploadProgress: ({ loaded, total }) => console.log(`${loaded}/${total} bytes`),
+   * });
+   */
+  uploadDocument(accountId: string, file: Blob, meta: KycDocumentMetadata, config?: RequestConfig): ApiPromise<Account> {
+    const formData = new FormData();
+    formData.append('document_type', meta.document_type);
+    if (meta.document_number !== undefined) {
+      formData.append('document_number', meta.document_number);
+    }
+
+    const filename = meta.filename ?? (typeof File !== 'undefined' && file instanceof File ? file.name : 'document');
+    formData.append('document_file', file, filename);
+
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<Account>(buildPath(ROUTES.submitKycDocument, { id: accountId }), formData));
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it, beforeEach, mock } from 'bun:test';
+import { StreamsResource } from './streams';
+import { HttpClient } from '../http';
+
+describe('StreamsResource', () => {
+  let fetch: ReturnType<typeof mock>;
+  let streamsResource: StreamsResource;
+
+  beforeEach(() => {
+    fetch = mock(() => Promise.resolve(new Response(
+      JSON.stringify({ stream_id: 'str_123', units: 120, accumulated: 0.24, timestamp: '2025-08-28T00:00:00Z' }),
+      { headers: { 'content-type': 'application/json' } }
+    )));
+    const httpClient = new HttpClient('test-api-key', 'https://test.api.com', 30000, { transport: { fetch } });
+    streamsResource = new StreamsResource(httpClient);
+  });
+
+  describe('reportUsage()', () => {
+    it('should report usage with the given idempotency key', async () => {
+      const result = await streamsResource.reportUsage('str_123', {
+        units: 120,
+        idempotencyKey: 'usage-1',
+        timestamp: new Date('2025-08-28T00:00:00Z'),
+      });
+
+      const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Record<string, string>;
+      expect(url).toBe('https://test.api.com/streams/str_123/usage');
+      expect(init.method).toBe('POST');
+      expect(headers['Idempotency-Key']).toBe('usage-1');
+      expect(JSON.parse(init.body as string)).toEqual({ units: 120, timestamp: '2025-08-28T00:00:00.000Z' });
+      expect(result.accumulated).toBe(0.24);
+    });
+
+    it('should generate an idempotency key when none is given', async () => {
+      await streamsResource.reportUsage('str_123', { units: 5 });
+
+      const [, init] = fetch.mock.calls[0] as [string, RequestInit];
+      expect((init.headers as Record<string, string>)['Idempotency-Key']).toBeString();
+      expect(JSON.parse(init.body as string)).toEqual({ units: 5 });
+    });
+  });
+
+  describe('meter()', () => {
+    it('should apply batches created while the state was being fetched, but only once', async () => {
+      const encoder = new TextEncoder();
+      let events!: ReadableStreamDefaultController<Uint8Array>;
+      let respond!: (response: Response) => void;
+      fetch.mockImplementation((url: string, init?: RequestInit) => {
+        if (!url.includes('/sse/')) {
+          return new Promise(resolve => (respond = resolve));
+        }
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            events = controller;
+            init?.signal?.addEventListener('abort', () => controller.error(new Error('aborted')));
+          },
+        });
+        return Promise.resolve(new Response(body, { headers: { 'content-type': 'text/event-stream' } }));
+      });
+      const batch = (id: string, amount: number) => encoder.encode(
+        `event: batch_created\ndata: {"stream_id":"str_123","batch_transaction_id":"${id}","amount":${amount}}\n\n`);
+
+      const metering = streamsResource.meter('str_123', { tickInterval: 0 });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      events.enqueue(batch('b_1', 1));
+      events.enqueue(batch('b_2', 5));
+      await new Promise(resolve => setTimeout(resolve, 10));
+      respond(new Response(JSON.stringify({
+        base: { id: 'str_123', currency: 'USD', state: 'Executing' },
+        rate: 0.002,
+        rate_unit: 'PerToken',
+        start_time: '2025-08-28T00:00:00Z',
+        accumulated: 1,
+        last_batch: 'b_1',
+      }), { headers: { 'content-type': 'application/json' } }));
+      const meter = await metering;
+      meter.close();
+
+      expect(meter.accrued.toString()).toBe('6.00');
+    });
+  });
+});
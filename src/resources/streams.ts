@@ -1,157 +1,297 @@
-import { HttpClient } from '../http';
-import { StreamConnection } from '../realtime/sse';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
+import { ApiPromise } from '../api-promise';
+import { PagePromise } from '../pagination';
+import { ROUTES, buildPath } from '../routes';
+import type { StreamConnection } from '../realtime/sse';
+import { EventIterator } from '../realtime/event-iterator';
+import type { EventIteratorOptions } from '../realtime/event-iterator';
+import { SubscriptionManager } from '../realtime/subscription-manager';
+import { StreamMeter } from '../realtime/stream-meter';
+import type { StreamMeterOptions } from '../realtime/stream-meter';
+import { UsageAggregator } from '../usage-aggregator';
+import type { UsageAggregatorOptions } from '../usage-aggregator';
 import type { 
   StreamingTransaction, 
   StatusResponse, 
+  UsageReport,
+  UsageReportResponse,
+  SSEStreamEvent,
+  SSEBatchCreatedEvent,
   PaginationParams,
   PaginatedResponse
 } from '../types';
 
 export class StreamsResource {
-  constructor(
-    private httpClient: HttpClient, 
-    private baseURL: string,
-    private apiKey: string
-  ) {}
+  /**
+   * Per-stream subscriptions that share one connection for all streams, or
+   * one per account, instead of opening a connection each.
+   */
+  public readonly subscriptions: SubscriptionManager;
+
+  constructor(private httpClient: HttpClient) {
+    this.subscriptions = new SubscriptionManager(accountId =>
+      accountId === undefined ? this.subscribeToAll() : this.subscribeToAccount(accountId));
+  }
 
   /**
    * Retrieve the current state of a streaming transaction.
    * @param id - The ID of the stream.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async retrieve(id: string): Promise<StreamingTransaction> {
-    return this.httpClient.get<StreamingTransaction>(`/streams/${id}`);
+  retrieve(id: string, config?: RequestConfig): ApiPromise<StreamingTransaction> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<StreamingTransaction>(buildPath(ROUTES.retrieveStream, { id })));
   }
 
   /**
    * List all streaming transactions with optional pagination.
+   * Await the result for a single page, or iterate it with `for await` to walk every page.
    * @param params - Pagination parameters and optional filters.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async list(params?: PaginationParams & {
+  list(params?: PaginationParams & {
     from?: string;
     to?: string;
     state?: string;
-  }): Promise<PaginatedResponse<StreamingTransaction>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) {
-      queryParams.append('page', params.page.toString());
-    }
-    if (params?.limit) {
-      queryParams.append('limit', params.limit.toString());
-    }
-    if (params?.cursor) {
-      queryParams.append('cursor', params.cursor);
-    }
-    if (params?.from) {
-      queryParams.append('from', params.from);
-    }
-    if (params?.to) {
-      queryParams.append('to', params.to);
-    }
-    if (params?.state) {
-      queryParams.append('state', params.state);
-    }
+  }, config?: RequestConfig): PagePromise<StreamingTransaction> {
+    return PagePromise.paginate({ ...params }, pageParams => {
+      const queryParams = new URLSearchParams();
 
-    const queryString = queryParams.toString();
-    const url = queryString ? `/streams?${queryString}` : '/streams';
-    
-    return this.httpClient.get<PaginatedResponse<StreamingTransaction>>(url);
+      if (pageParams.page) {
+        queryParams.append('page', pageParams.page.toString());
+      }
+      if (pageParams.limit) {
+        queryParams.append('limit', pageParams.limit.toString());
+      }
+      if (pageParams.cursor) {
+        queryParams.append('cursor', pageParams.cursor);
+      }
+      if (pageParams.from) {
+        queryParams.append('from', pageParams.from);
+      }
+      if (pageParams.to) {
+        queryParams.append('to', pageParams.to);
+      }
+      if (pageParams.state) {
+        queryParams.append('state', pageParams.state);
+      }
+
+      const queryString = queryParams.toString();
+      const url = queryString ? `${ROUTES.listStreams}?${queryString}` : ROUTES.listStreams;
+
+      return ApiPromise.from(withRequestConfig(this.httpClient, config).get<PaginatedResponse<StreamingTransaction>>(url));
+    });
   }
 
   /**
    * Pause a running stream.
    * @param id - The ID of the stream to pause.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async pause(id: string): Promise<StatusResponse> {
-    return this.httpClient.post<StatusResponse>(`/streams/${id}/pause`);
+  pause(id: string, config?: RequestConfig): ApiPromise<StatusResponse> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<StatusResponse>(buildPath(ROUTES.pauseStream, { id })));
   }
 
   /**
    * Resume a paused stream.
    * @param id - The ID of the stream to resume.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async resume(id: string): Promise<StatusResponse> {
-    return this.httpClient.post<StatusResponse>(`/streams/${id}/resume`);
+  resume(id: string, config?: RequestConfig): ApiPromise<StatusResponse> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<StatusResponse>(buildPath(ROUTES.resumeStream, { id })));
   }
 
   /**
    * Permanently stop a stream.
    * @param id - The ID of the stream to stop.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async stop(id: string): Promise<StatusResponse> {
-    return this.httpClient.post<StatusResponse>(`/streams/${id}/stop`);
+  stop(id: string, config?: RequestConfig): ApiPromise<StatusResponse> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<StatusResponse>(buildPath(ROUTES.stopStream, { id })));
+  }
+
+  /**
+   * Report usage for a stream priced per word or per token.
+   * Reports with the same idempotency key are only counted once, including
+   * when the request is retried.
+   * @param id - The ID of the stream.
+   * @param usage - The units used, and optionally an idempotency key and when they were used.
+   * @param config - Per-request settings such as an abort signal or timeout.
+   */
+  reportUsage(id: string, usage: UsageReport, config?: RequestConfig): ApiPromise<UsageReportResponse> {
+    const { idempotencyKey, timestamp, units } = usage;
+    const payload = {
+      units,
+      ...(timestamp !== undefined && { timestamp: timestamp instanceof Date ? timestamp.toISOString() : timestamp }),
+    };
+    return ApiPromise.from(withRequestConfig(this.httpClient, idempotencyKey ? { ...config, idempotencyKey } : config)
+      .post<UsageReportResponse>(buildPath(ROUTES.reportStreamUsage, { id }), payload));
+  }
+
+  /**
+   * Create an aggregator that batches usage, e.g. token counts from LLM
+   * responses, into periodic reportUsage calls. Close it when done to report
+   * what is left.
+   * @param options - Flush interval, size threshold and error handler.
+   */
+  usageAggregator(options?: UsageAggregatorOptions): UsageAggregator {
+    return new UsageAggregator((id, usage) => this.reportUsage(id, usage), {
+      logger: this.httpClient.getLogger(),
+      ...options,
+    });
   }
 
   /**
    * Update stream configuration.
    * @param id - The ID of the stream to update.
    * @param payload - The updated stream configuration.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async update(id: string, payload: {
+  update(id: string, payload: {
     rate?: number;
     rate_unit?: string;
     end_time?: string;
-  }): Promise<StreamingTransaction> {
-    return this.httpClient.put<StreamingTransaction>(`/streams/${id}`, payload);
+  }, config?: RequestConfig): ApiPromise<StreamingTransaction> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).put<StreamingTransaction>(buildPath(ROUTES.updateStream, { id }), payload));
   }
 
   /**
    * Get all streams for a specific account.
    * @param accountId - The ID of the account.
    * @param params - Pagination parameters and optional filters.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async getForAccount(accountId: string, params?: PaginationParams & {
+  getForAccount(accountId: string, params?: PaginationParams & {
     state?: string;
-  }): Promise<PaginatedResponse<StreamingTransaction>> {
-    const queryParams = new URLSearchParams();
-    
-    if (params?.page) {
-      queryParams.append('page', params.page.toString());
-    }
-    if (params?.limit) {
-      queryParams.append('limit', params.limit.toString());
-    }
-    if (params?.cursor) {
-      queryParams.append('cursor', params.cursor);
-    }
-    if (params?.state) {
-      queryParams.append('state', params.state);
-    }
+  }, config?: RequestConfig): PagePromise<StreamingTransaction> {
+    return PagePromise.paginate({ ...params }, pageParams => {
+      const queryParams = new URLSearchParams();
 
-    const queryString = queryParams.toString();
-    const url = queryString 
-      ? `/accounts/${accountId}/streams?${queryString}` 
-      : `/accounts/${accountId}/streams`;
-    
-    return this.httpClient.get<PaginatedResponse<StreamingTransaction>>(url);
+      if (pageParams.page) {
+        queryParams.append('page', pageParams.page.toString());
+      }
+      if (pageParams.limit) {
+        queryParams.append('limit', pageParams.limit.toString());
+      }
+      if (pageParams.cursor) {
+        queryParams.append('cursor', pageParams.cursor);
+      }
+      if (pageParams.state) {
+        queryParams.append('state', pageParams.state);
+      }
+
+      const path = buildPath(ROUTES.listAccountStreams, { id: accountId });
+      const queryString = queryParams.toString();
+      const url = queryString ? `${path}?${queryString}` : path;
+
+      return ApiPromise.from(withRequestConfig(this.httpClient, config).get<PaginatedResponse<StreamingTransaction>>(url));
+    });
   }
 
   /**
-   * Subscribe to real-time events for a specific stream.
+   * Subscribe to real-time events for a specific stream over its own connection.
+   * To follow many streams, use `subscriptions` to share a connection instead.
+   * If events are missed while reconnecting, the stream is re-fetched and
+   * reported with a 'gap' event.
    * @param id - The ID of the stream to subscribe to.
    * @returns A StreamConnection object to handle event listeners.
    */
   subscribe(id: string): StreamConnection {
-    const url = new URL(`${this.baseURL}/sse/streams/${id}`);
-    return new StreamConnection(url, this.apiKey);
+    return this.httpClient.openStream(buildPath(ROUTES.streamEvents, { id }), {
+      backfill: async () => [await this.retrieve(id)],
+    });
+  }
+
+  /**
+   * Iterate over real-time events for a specific stream with `for await`.
+   * @param id - The ID of the stream to subscribe to.
+   * @param options - Abort signal, buffer size and overflow policy.
+   */
+  events(id: string, options?: EventIteratorOptions): EventIterator {
+    return new EventIterator(this.subscribe(id), options);
+  }
+
+  /**
+   * Estimate a stream's accrued amount live, from its current state and its
+   * events over the shared connection. Close the meter when done with it.
+   * @param id - The ID of the stream.
+   * @param options - How often to emit 'tick' events.
+   * @param config - Per-request settings for fetching the stream's state.
+   */
+  async meter(id: string, options?: StreamMeterOptions, config?: RequestConfig): Promise<StreamMeter> {
+    // Subscribe before fetching the state, and hold events back until it arrives
+    const subscription = this.subscriptions.subscribe(id);
+    const buffered: Array<[string, SSEStreamEvent | SSEBatchCreatedEvent]> = [];
+    const onStreamEvent = (data: SSEStreamEvent) => buffered.push(['stream_event', data]);
+    const onBatch = (data: SSEBatchCreatedEvent) => buffered.push(['batch_created', data]);
+    subscription.on('stream_event', onStreamEvent).on('batch_created', onBatch);
+
+    try {
+      const stream = await this.retrieve(id, config);
+      subscription.off('stream_event', onStreamEvent).off('batch_created', onBatch);
+      const meter = new StreamMeter(id, stream, subscription, options);
+      meter.once('close', () => subscription.unsubscribe());
+
+      // Replay what arrived meanwhile, except batches the fetched state already includes
+      const settled = buffered.findIndex(([event, data]) =>
+        event === 'batch_created' && (data as SSEBatchCreatedEvent).batch_transaction_id === stream.last_batch);
+      buffered.forEach(([event, data], index) => {
+        if (event !== 'batch_created' || index > settled) {
+          subscription.emit(event, data);
+        }
+      });
+      return meter;
+    } catch (error) {
+      subscription.unsubscribe();
+      throw error;
+    }
   }
 
   /**
    * Subscribe to real-time events for all streams of an account.
+   * If events are missed while reconnecting, the account's streams are
+   * re-fetched and reported with a 'gap' event.
    * @param accountId - The ID of the account.
    * @returns A StreamConnection object to handle event listeners.
    */
   subscribeToAccount(accountId: string): StreamConnection {
-    const url = new URL(`${this.baseURL}/sse/accounts/${accountId}/streams`);
-    return new StreamConnection(url, this.apiKey);
+    return this.httpClient.openStream(buildPath(ROUTES.streamAccountEvents, { id: accountId }), {
+      backfill: async () => {
+        const streams: StreamingTransaction[] = [];
+        for await (const stream of this.getForAccount(accountId)) {
+          streams.push(stream);
+        }
+        return streams;
+      },
+    });
+  }
+
+  /**
+   * Iterate over real-time events for all streams of an account with `for await`.
+   * @param accountId - The ID of the account.
+   * @param options - Abort signal, buffer size and overflow policy.
+   */
+  accountEvents(accountId: string, options?: EventIteratorOptions): EventIterator {
+    return new EventIterator(this.subscribeToAccount(accountId), options);
   }
 
   /**
    * Subscribe to real-time events for all streams (global).
+   * If events are missed while reconnecting, the streams seen so far on
+   * this connection are re-fetched and reported with a 'gap' event.
    * @returns A StreamConnection object to handle event listeners.
    */
   subscribeToAll(): StreamConnection {
-    const url = new URL(`${this.baseURL}/sse/streams`);
-    return new StreamConnection(url, this.apiKey);
+    return this.httpClient.openStream(ROUTES.streamAllEvents, {
+      backfill: streamIds => Promise.all(streamIds.map(id => this.retrieve(id))),
+    });
+  }
+
+  /**
+   * Iterate over real-time events for all streams (global) with `for await`.
+   * @param options - Abort signal, buffer size and overflow policy.
+   */
+  allEvents(options?: EventIteratorOptions): EventIterator {
+    return new EventIterator(this.subscribeToAll(), options);
   }
-} 
\ No newline at end of file
+}
@@ -1,4 +1,8 @@
-import { HttpClient } from '../http';
+import { HttpClient, withRequestConfig } from '../http';
+import type { RequestConfig } from '../http';
+import { ApiPromise } from '../api-promise';
+import { PagePromise } from '../pagination';
+import { ROUTES, buildPath } from '../routes';
 import type { 
   Transaction as TransactionData, 
   CreateTransactionPayload, 
@@ -15,102 +19,111 @@ export class TransactionsResource {
   /**
    * Create a new transaction.
    * @param payload - The details of the transaction.
+   * @param config - Per-request settings, e.g. an explicit idempotency key.
    */
-  async create(payload: CreateTransactionPayload): Promise<Transaction> {
-    const transactionData = await this.httpClient.post<TransactionData>('/transactions', payload);
-    return new Transaction(transactionData, this.httpClient);
+  create(payload: CreateTransactionPayload, config?: RequestConfig): ApiPromise<Transaction> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<TransactionData>(ROUTES.createTransaction, payload))
+      .map(transactionData => new Transaction(transactionData, this.httpClient));
   }
 
   /**
    * Retrieve a transaction by its ID.
    * @param id - The ID of the transaction.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async retrieve(id: string): Promise<Transaction> {
-    const transactionData = await this.httpClient.get<TransactionData>(`/transactions/${id}`);
-    return new Transaction(transactionData, this.httpClient);
+  retrieve(id: string, config?: RequestConfig): ApiPromise<Transaction> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<TransactionData>(buildPath(ROUTES.retrieveTransaction, { id })))
+      .map(transactionData => new Transaction(transactionData, this.httpClient));
   }
 
   /**
    * List all transactions with optional pagination and filtering.
+   * Await the result for a single page, or iterate it with `for await` to walk every page.
    * @param params - Pagination parameters and optional filters.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async list(params?: PaginationParams & {
+  list(params?: PaginationParams & {
     from?: string;
     to?: string;
     transaction_type?: string;
     state?: string;
-  }): Promise<PaginatedResponse<Transaction>> {
-    const response = await this.httpClient.get<PaginatedResponse<TransactionData>>('/transactions', params);
-    return {
-      ...response,
-      data: response.data.map(txData => new Transaction(txData, this.httpClient))
-    };
+  }, config?: RequestConfig): PagePromise<Transaction> {
+    return PagePromise.paginate({ ...params }, pageParams => this.fetchTransactions(ROUTES.listTransactions, pageParams, config));
   }
 
   /**
    * Update a transaction.
    * @param id - The ID of the transaction to update.
    * @param payload - The updated transaction details.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async update(id: string, payload: Partial<CreateTransactionPayload>): Promise<Transaction> {
-    const transactionData = await this.httpClient.put<TransactionData>(`/transactions/${id}`, payload);
-    return new Transaction(transactionData, this.httpClient);
+  update(id: string, payload: Partial<CreateTransactionPayload>, config?: RequestConfig): ApiPromise<Transaction> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).put<TransactionData>(buildPath(ROUTES.updateTransaction, { id }), payload))
+      .map(transactionData => new Transaction(transactionData, this.httpClient));
   }
 
   /**
    * Delete a transaction.
    * @param id - The ID of the transaction to delete.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async delete(id: string): Promise<void> {
-    await this.httpClient.delete(`/transactions/${id}`);
+  delete(id: string, config?: RequestConfig): ApiPromise<void> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).delete(buildPath(ROUTES.deleteTransaction, { id }))).map(() => undefined);
   }
 
   /**
    * Get all child transactions of a parent transaction.
    * @param parentId - The ID of the parent transaction.
    * @param params - Pagination parameters.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async getChildren(parentId: string, params?: PaginationParams): Promise<PaginatedResponse<Transaction>> {
-    const response = await this.httpClient.get<PaginatedResponse<TransactionData>>(`/transactions/${parentId}/children`, params);
-    return {
-      ...response,
-      data: response.data.map(transactionData => new Transaction(transactionData, this.httpClient))
-    };
+  getChildren(parentId: string, params?: PaginationParams, config?: RequestConfig): PagePromise<Transaction> {
+    return PagePromise.paginate({ ...params }, pageParams =>
+      this.fetchTransactions(buildPath(ROUTES.listChildTransactions, { id: parentId }), pageParams, config));
   }
 
   /**
    * Execute a transaction through a gateway.
    * @param transactionId - The ID of the transaction to execute.
    * @param gatewayId - The ID of the gateway to use.
+   * @param config - Per-request settings, e.g. an explicit idempotency key.
    */
-  async execute(transactionId: string, gatewayId: string): Promise<TransactionData> {
-    return this.httpClient.post<TransactionData>(`/transactions/${transactionId}/execute`, { gateway_id: gatewayId });
+  execute(transactionId: string, gatewayId: string, config?: RequestConfig): ApiPromise<TransactionData> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config)
+      .post<TransactionData>(buildPath(ROUTES.executeTransaction, { id: transactionId }), { gateway_id: gatewayId }));
   }
 
   /**
    * Converts a base transaction into a streaming transaction.
    * @param baseTransactionId - The ID of the transaction to convert into a stream.
    * @param payload - The configuration for the stream.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async createStream(baseTransactionId: string, payload: CreateStreamingTransactionPayload): Promise<StreamingTransaction> {
+  createStream(baseTransactionId: string, payload: CreateStreamingTransactionPayload, config?: RequestConfig): ApiPromise<StreamingTransaction> {
     // Note: The payload in the backend has base_transaction_id, we simplify it here.
     const apiPayload = { ...payload, base_transaction_id: baseTransactionId };
-    return this.httpClient.post<StreamingTransaction>(`/transactions/${baseTransactionId}/stream`, apiPayload);
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).post<StreamingTransaction>(buildPath(ROUTES.createStream, { id: baseTransactionId }), apiPayload));
   }
 
   /**
    * Get all transactions for a specific account.
    * @param accountId - The ID of the account.
    * @param params - Pagination parameters and optional filters.
+   * @param config - Per-request settings such as an abort signal or timeout.
    */
-  async getForAccount(accountId: string, params?: PaginationParams & {
+  getForAccount(accountId: string, params?: PaginationParams & {
     transaction_type?: string;
     state?: string;
-  }): Promise<PaginatedResponse<Transaction>> {
-    const response = await this.httpClient.get<PaginatedResponse<TransactionData>>(`/accounts/${accountId}/transactions`, params);
-    return {
-      ...response,
-      data: response.data.map(transactionData => new Transaction(transactionData, this.httpClient))
-    };
+  }, config?: RequestConfig): PagePromise<Transaction> {
+    return PagePromise.paginate({ ...params }, pageParams =>
+      this.fetchTransactions(buildPath(ROUTES.listAccountTransactions, { id: accountId }), pageParams, config));
+  }
+
+  private fetchTransactions(url: string, params: PaginationParams, config?: RequestConfig): ApiPromise<PaginatedResponse<Transaction>> {
+    return ApiPromise.from(withRequestConfig(this.httpClient, config).get<PaginatedResponse<TransactionData>>(url, params))
+      .map(response => ({
+        ...response,
+        data: response.data.map(transactionData => new Transaction(transactionData, this.httpClient))
+      }));
   }
 } 
\ No newline at end of file
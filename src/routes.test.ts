@@ -0,0 +1,69 @@
+import { describe, it, expect } from "bun:test";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { buildPath, OPERATIONS, ROUTES } from "./routes";
+import { generate } from "../scripts/generate-api";
+import type { OpenApiSpec } from "../scripts/generate-api";
+
+const SPEC_PATH = join(import.meta.dir, "../spec/openapi.json");
+
+// Operations the SDK deliberately leaves unwrapped, with the reason
+const NOT_WRAPPED: Record<string, string> = {};
+
+// Routes the SDK calls before the engine's spec describes them, with the reason
+const NOT_IN_SPEC: Record<string, string> = {
+  reportStreamUsage: "Usage reporting for per-word and per-token streams",
+};
+
+function sourceFiles(): string[] {
+  return (readdirSync(import.meta.dir, { recursive: true }) as string[])
+    .filter(file => file.endsWith(".ts") && !file.endsWith(".test.ts") && !file.startsWith("generated"))
+    .map(file => readFileSync(join(import.meta.dir, file), "utf8"));
+}
+
+describe("buildPath", () => {
+  it("should fill in and encode path parameters", () => {
+    expect(buildPath(ROUTES.retrieveAccount, { id: "acc_123" })).toBe("/accounts/acc_123");
+    expect(buildPath(ROUTES.executeTransactionWithGateway, { id: "txn 1", gatewayId: "stripe/eu" }))
+      .toBe("/transactions/txn%201/gateways/stripe%2Feu/execute");
+  });
+
+  it("should reject a missing parameter", () => {
+    expect(() => buildPath("/accounts/{id}", {} as { id: string }))
+      .toThrow('Missing path parameter "id" for /accounts/{id}');
+  });
+});
+
+describe("OpenAPI conformance", () => {
+  it("should keep src/generated/api.ts in sync with the spec", () => {
+    const spec = JSON.parse(readFileSync(SPEC_PATH, "utf8")) as OpenApiSpec;
+    const generated = readFileSync(join(import.meta.dir, "generated/api.ts"), "utf8");
+
+    expect(generated).toBe(generate(spec));
+  });
+
+  it("should wrap every operation the engine exposes", () => {
+    const source = sourceFiles().join("\n");
+    const used = new Set(Array.from(source.matchAll(/ROUTES\.(\w+)/g), match => match[1]));
+
+    const unwrapped = OPERATIONS
+      .filter(op => !used.has(op.operationId) && !(op.operationId in NOT_WRAPPED))
+      .map(op => `${op.method} ${op.path} (${op.operationId})`);
+
+    expect(unwrapped).toEqual([]);
+  });
+
+  it("should only call routes the engine exposes", () => {
+    const known = new Set<string>(OPERATIONS.map(op => op.operationId));
+    const extra = Object.keys(ROUTES).filter(operationId => !known.has(operationId));
+
+    expect(extra.filter(operationId => !(operationId in NOT_IN_SPEC))).toEqual([]);
+    expect(Object.keys(NOT_IN_SPEC).filter(operationId => known.has(operationId))).toEqual([]);
+  });
+
+  it("should only list known operations as deliberately unwrapped", () => {
+    const known = new Set<string>(OPERATIONS.map(op => op.operationId));
+
+    expect(Object.keys(NOT_WRAPPED).filter(operationId => !known.has(operationId))).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  array,
+  boolean,
+  literal,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  union,
+} from './validation';
+import type { Schema } from './validation';
+
+// Runtime counterparts of the response types in ./types
+
+const currency = union(literal('USD', 'USDC', 'EUR'), object({ Custom: string() }));
+
+export const accountSchema: Schema = object({
+  id: string(),
+  name: string(),
+  account_type: literal('Human', 'AgentMain', 'AgentDelegated'),
+  parent_id: optional(nullable(string())),
+  public_key: optional(nullable(string())),
+  meta: record(),
+  limits: object({
+    daily: optional(nullable(number())),
+    per_transaction: optional(nullable(number())),
+    total: optional(nullable(number())),
+  }),
+  verification: object({
+    status: literal('unverified', 'pending', 'verified', 'rejected'),
+    verified_at: optional(nullable(string())),
+    kyc_data: optional(nullable(object({
+      document_type: optional(string()),
+      document_number: optional(string()),
+      verified_by: optional(string()),
+    }))),
+  }),
+  created_at: string(),
+  updated_at: string(),
+  children: array(string()),
+});
+
+export const transactionSchema: Schema = object({
+  id: string(),
+  transaction_type: literal('Payment', 'Escrow', 'Stream', 'Scheduled', 'Fund', 'Refund'),
+  amount: number(),
+  currency,
+  from: string(),
+  to: optional(nullable(string())),
+  parent_id: optional(nullable(string())),
+  children: array(string()),
+  state: literal('Draft', 'Pending', 'Executing', 'Completed', 'Failed', 'Cancelled'),
+  conditions: optional(nullable(array(record()))),
+  meta: record(),
+  created_at: string(),
+  updated_at: string(),
+  executed_at: optional(nullable(string())),
+});
+
+export const streamingTransactionSchema: Schema = object({
+  base: transactionSchema,
+  rate: number(),
+  rate_unit: union(
+    literal('PerSecond', 'PerMinute', 'PerHour', 'PerWord', 'PerToken'),
+    object({ Custom: string() })
+  ),
+  start_time: string(),
+  end_time: optional(nullable(string())),
+  accumulated: number(),
+  last_batch: string(),
+});
+
+export function paginatedResponseSchema(items: Schema): Schema {
+  return object({
+    data: array(items),
+    pagination: object({
+      page: number(),
+      limit: number(),
+      total: number(),
+      has_more: boolean(),
+      next_cursor: optional(string()),
+    }),
+  });
+}
+
+export const sseStreamEventSchema: Schema = object({
+  stream_id: string(),
+  event_type: literal('streamstarted', 'paused', 'resumed', 'stopped', 'completed'),
+  timestamp: string(),
+});
+
+export const sseBatchCreatedEventSchema: Schema = object({
+  stream_id: string(),
+  batch_transaction_id: string(),
+  amount: number(),
+  timestamp: string(),
+});
+
+export const SSE_EVENT_SCHEMAS: Record<string, Schema> = {
+  stream_event: sseStreamEventSchema,
+  batch_created: sseBatchCreatedEventSchema,
+};
+
+// Child listings are paginated by the resources but plain arrays on the models
+const accountList = union(paginatedResponseSchema(accountSchema), array(accountSchema));
+const transactionList = union(paginatedResponseSchema(transactionSchema), array(transactionSchema));
+
+/**
+ * Response schemas by method and route template (see getRouteTemplate).
+ * Routes without an entry are not validated.
+ */
+export const RESPONSE_SCHEMAS: Record<string, Schema> = {
+  'GET /accounts': paginatedResponseSchema(accountSchema),
+  'POST /accounts': accountSchema,
+  'GET /accounts/{id}': accountSchema,
+  'PUT /accounts/{id}': accountSchema,
+  'PATCH /accounts/{id}': accountSchema,
+  'GET /accounts/{id}/children': accountList,
+  'GET /accounts/{id}/transactions': paginatedResponseSchema(transactionSchema),
+  'GET /accounts/{id}/streams': paginatedResponseSchema(streamingTransactionSchema),
+  'POST /accounts/{id}/kyc': accountSchema,
+  'POST /accounts/{id}/verify': accountSchema,
+  'POST /accounts/{id}/reject-verification': accountSchema,
+  'POST /accounts/{id}/purchase': transactionSchema,
+  'GET /transactions': paginatedResponseSchema(transactionSchema),
+  'POST /transactions': transactionSchema,
+  'GET /transactions/{id}': transactionSchema,
+  'PUT /transactions/{id}': transactionSchema,
+  'PATCH /transactions/{id}': transactionSchema,
+  'GET /transactions/{id}/children': transactionList,
+  'POST /transactions/{id}/execute': transactionSchema,
+  'POST /transactions/{id}/cancel': transactionSchema,
+  'POST /transactions/{id}/refund': transactionSchema,
+  'GET /streams': paginatedResponseSchema(streamingTransactionSchema),
+  'GET /streams/{id}': streamingTransactionSchema,
+  'PUT /streams/{id}': streamingTransactionSchema,
+  'GET /admin/accounts': array(accountSchema),
+  'GET /admin/transactions': array(transactionSchema),
+  'GET /admin/streams': array(streamingTransactionSchema),
+};
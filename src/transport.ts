@@ -0,0 +1,24 @@
+/**
+ * A fetch-compatible function, e.g. undici's fetch bound to a keep-alive
+ * agent, a proxy-aware fetch, or an in-process fake for tests.
+ */
+export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+/**
+ * The network primitives the SDK uses. A single transport drives both
+ * REST calls and real-time subscriptions.
+ */
+export interface Transport {
+  /** Used for all REST requests and Server-Sent Events streams. Defaults to the global fetch. */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Fill in the global implementations for anything the transport doesn't provide.
+ * Globals are looked up on every call so that they can be replaced at runtime.
+ */
+export function resolveTransport(transport: Transport = {}): Required<Transport> {
+  return {
+    fetch: transport.fetch ?? ((input, init) => globalThis.fetch(input, init)),
+  };
+}
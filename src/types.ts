@@ -1,10 +1,21 @@
+// Wire-format types are generated from the engine's OpenAPI spec (spec/openapi.json);
+// the SDK narrows a few of them, e.g. conditions built with the DSL.
+import type * as Api from './generated/api';
+import type { Money } from './money';
+
 // --- Enums and Union Types ---
 
-export type AccountType = "Human" | "AgentMain" | "AgentDelegated";
-export type TransactionType = "Payment" | "Escrow" | "Stream" | "Scheduled" | "Fund" | "Refund";
-export type TransactionState = "Draft" | "Pending" | "Executing" | "Completed" | "Failed" | "Cancelled";
-export type StreamRateUnit = "PerSecond" | "PerMinute" | "PerHour" | "PerWord" | "PerToken" | { Custom: string };
-export type Currency = "USD" | "USDC" | "EUR" | { Custom: string };
+export type AccountType = Api.AccountType;
+export type TransactionType = Api.TransactionType;
+export type TransactionState = Api.TransactionState;
+export type StreamRateUnit = Api.StreamRateUnit;
+export type Currency = Api.Currency;
+
+/**
+ * A monetary amount. Requests accept either form; responses contain Money
+ * when the client is created with `amounts: 'money'`, and numbers otherwise.
+ */
+export type Amount = number | Money;
 
 // --- New DSL Types ---
 
@@ -34,7 +45,7 @@ export interface ProductDefinition {
   id: string;
   pricing: {
     model: 'per_unit' | 'streaming';
-    rate: number;
+    rate: Amount;
     unit: string;
     currency: Currency;
   };
@@ -42,137 +53,85 @@ export interface ProductDefinition {
   workflow: Array<{
     name: string;
     delegateTo: string;
-    charge: number;
+    charge: Amount;
   }>;
 }
 
 // --- Main Data Models ---
 
-export interface Account {
-  id: string;
-  name: string;
-  account_type: AccountType;
-  parent_id?: string | null;
-  public_key?: string | null;
-  meta: Record<string, any>;
-  limits: {
-    daily?: number | null;
-    per_transaction?: number | null;
-    total?: number | null;
-  };
-  verification: {
-    status: 'unverified' | 'pending' | 'verified' | 'rejected';
-    verified_at?: string | null;
-    kyc_data?: {
-      document_type?: string;
-      document_number?: string;
-      verified_by?: string;
-    } | null;
-  };
-  created_at: string; // ISO 8601 DateTime string
-  updated_at: string; // ISO 8601 DateTime string
-  children: string[];
-}
+export type Account = Api.Account;
 
-export interface Transaction {
-  id: string;
-  transaction_type: TransactionType;
-  amount: number;
-  currency: Currency;
-  from: string;
-  to?: string | null;
-  parent_id?: string | null;
-  children: string[];
-  state: TransactionState;
-  conditions?: Condition[] | null; // Now properly typed
-  meta: Record<string, any>;
-  created_at: string;
-  updated_at: string;
-  executed_at?: string | null;
+export interface Transaction extends Omit<Api.Transaction, 'amount' | 'conditions'> {
+  amount: Amount;
+  conditions?: Condition[] | null; // Built with the condition DSL, serialized by the engine
 }
 
-export interface StreamingTransaction {
+export interface StreamingTransaction extends Omit<Api.StreamingTransaction, 'base' | 'rate' | 'accumulated'> {
   base: Transaction;
-  rate: number;
-  rate_unit: StreamRateUnit;
-  start_time: string;
-  end_time?: string | null;
-  accumulated: number;
-  last_batch: string;
+  rate: Amount;
+  accumulated: Amount;
 }
 
 // --- API Payload Types ---
 
-export interface CreateAccountPayload {
-  name: string;
-  account_type: AccountType;
-  parent_id?: string;
-  public_key?: string;
-  meta?: Record<string, any>;
-  limits?: {
-    daily?: number;
-    per_transaction?: number;
-    total?: number;
-  };
-  verification?: {
-    status?: 'unverified' | 'pending' | 'verified' | 'rejected';
-    verified_at?: string;
-    kyc_data?: {
-      document_type?: string;
-      document_number?: string;
-      verified_by?: string;
-    };
-  };
+export type CreateAccountPayload = Api.CreateAccountPayload;
+
+export interface CreateTransactionPayload extends Omit<Api.CreateTransactionPayload, 'amount' | 'conditions'> {
+  amount: Amount;
+  conditions?: Condition[];
 }
 
-export interface CreateTransactionPayload {
-  amount: number;
-  currency: Currency;
-  transaction_type: TransactionType;
-  from: string;
-  to?: string;
-  parent_id?: string;
-  meta?: Record<string, any>;
-  conditions?: Condition[]; // Now properly typed
+export interface CreateStreamingTransactionPayload extends Omit<Api.CreateStreamingTransactionPayload, 'rate'> {
+  rate: Amount;
 }
 
-export interface CreateStreamingTransactionPayload {
-  rate: number;
-  rate_unit: StreamRateUnit;
-  start_time?: string;
-  end_time?: string;
+export interface UsageReport {
+  /** Words or tokens used, in the stream's rate unit */
+  units: number;
+  /** Lets the server count a retried report only once. Generated when omitted. */
+  idempotencyKey?: string;
+  /** When the usage happened. Defaults to when the report is received. */
+  timestamp?: string | Date;
 }
 
 // --- API Response Types ---
 
-export interface StatusResponse {
-  status: 'paused' | 'resumed' | 'stopped';
+export type StatusResponse = Api.StatusResponse;
+
+// Not in the engine's spec yet, see SDK_ONLY_ROUTES
+export interface UsageReportResponse {
   stream_id: string;
+  units: number;
+  /** The stream's accumulated amount after this report */
+  accumulated: number;
   timestamp: string;
 }
 
 // --- Real-time Event Types (from docs/streaming_api.md) ---
 
-export interface SSEStreamEvent {
-  stream_id: string;
-  event_type: 'streamstarted' | 'paused' | 'resumed' | 'stopped' | 'completed';
-  timestamp: string;
-}
+export type SSEStreamEvent = Api.SSEStreamEvent;
 
-export interface SSEBatchCreatedEvent {
-  stream_id: string;
-  batch_transaction_id: string;
-  amount: number;
-  timestamp: string;
-}
+export type SSEBatchCreatedEvent = Api.SSEBatchCreatedEvent;
 
 // --- Error Types ---
 
-export interface APIError {
-  error: string;
+export type APIError = Api.APIError;
+
+export interface FieldError {
+  field: string;
   message: string;
-  status_code: number;
-  details?: Record<string, any>;
+  code?: string;
+}
+
+// --- Rate Limit Types ---
+
+export interface RateLimitInfo {
+  /** Maximum number of requests allowed in the current window (X-RateLimit-Limit) */
+  limit?: number;
+  /** Requests left in the current window (X-RateLimit-Remaining) */
+  remaining?: number;
+  /** When the current window resets, as sent by the server (X-RateLimit-Reset) */
+  reset?: number;
 }
 
 // --- Pagination Types ---
@@ -0,0 +1,120 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { UsageAggregator } from './usage-aggregator';
+import { NetworkError, ValidationError } from './errors';
+import type { UsageReport } from './types';
+
+const silentLogger = { debug() {}, info() {}, warn() {}, error() {} };
+
+function setup(failures: Error[] = []) {
+  const reports: Array<[string, UsageReport]> = [];
+  const report = mock((streamId: string, usage: UsageReport) => {
+    reports.push([streamId, { ...usage }]);
+    const failure = failures.shift();
+    return failure ? Promise.reject(failure) : Promise.resolve({});
+  });
+  return { report, reports };
+}
+
+describe('UsageAggregator', () => {
+  it('should report the usage recorded for each stream in one batch', async () => {
+    const { report, reports } = setup();
+    const aggregator = new UsageAggregator(report, { flushInterval: 0 });
+
+    aggregator.record('str_1', 100);
+    aggregator.record('str_2', 7);
+    aggregator.record('str_1', 20);
+    aggregator.record('str_1', 0);
+    expect(aggregator.pendingUnits()).toBe(127);
+    await aggregator.flush();
+
+    expect(reports.map(([streamId, usage]) => [streamId, usage.units])).toEqual([['str_1', 120], ['str_2', 7]]);
+    expect(reports[0]![1].idempotencyKey).not.toBe(reports[1]![1].idempotencyKey);
+    expect(aggregator.pendingUnits()).toBe(0);
+
+    await aggregator.flush();
+    expect(report).toHaveBeenCalledTimes(2);
+    expect((aggregator as any).streams.size).toBe(0);
+  });
+
+  it('should flush a stream once it reaches the size threshold', async () => {
+    const { report, reports } = setup();
+    const aggregator = new UsageAggregator(report, { flushInterval: 0, maxUnits: 50 });
+
+    aggregator.record('str_1', 30);
+    expect(report).not.toHaveBeenCalled();
+    aggregator.record('str_1', 30);
+    await aggregator.flush();
+
+    expect(reports.map(([, usage]) => usage.units)).toEqual([60]);
+  });
+
+  it('should resend a failed report unchanged and count later usage separately', async () => {
+    const { report, reports } = setup([new NetworkError('socket hang up')]);
+    const aggregator = new UsageAggregator(report, { flushInterval: 0 });
+
+    aggregator.record('str_1', 10);
+    await expect(aggregator.flush()).rejects.toBeInstanceOf(NetworkError);
+    aggregator.record('str_1', 5);
+    expect(aggregator.pendingUnits('str_1')).toBe(15);
+    await aggregator.flush();
+
+    const [first, retry, next] = reports.map(([, usage]) => usage);
+    expect(retry).toEqual(first!);
+    expect(retry!.units).toBe(10);
+    expect(next!.units).toBe(5);
+    expect(next!.idempotencyKey).not.toBe(first!.idempotencyKey);
+    expect(aggregator.pendingUnits()).toBe(0);
+  });
+
+  it('should drop a report the API rejects', async () => {
+    const { report } = setup([new ValidationError('units must be positive')]);
+    const aggregator = new UsageAggregator(report, { flushInterval: 0 });
+
+    aggregator.record('str_1', 10);
+    await expect(aggregator.flush()).rejects.toBeInstanceOf(ValidationError);
+    await aggregator.flush();
+
+    expect(report).toHaveBeenCalledTimes(1);
+    expect(aggregator.pendingUnits()).toBe(0);
+  });
+
+  it('should flush on an interval and pass failures to onError', async () => {
+    const { report } = setup([new NetworkError('socket hang up')]);
+    const onError = mock(() => {});
+    const aggregator = new UsageAggregator(report, { flushInterval: 5, onError, logger: silentLogger });
+
+    aggregator.record('str_1', 10);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await aggregator.close();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(NetworkError), 'str_1', 0);
+    expect(report.mock.calls.length).toBeGreaterThanOrEqual(2);
+    expect(aggregator.pendingUnits()).toBe(0);
+  });
+
+  it('should drop reports that failed for a reason other than the network, and say how many units', async () => {
+    const { report } = setup([new TypeError('Cannot convert a BigInt value to a number')]);
+    const onError = mock(() => {});
+    const aggregator = new UsageAggregator(report, { flushInterval: 0, maxUnits: 10, onError, logger: silentLogger });
+
+    aggregator.record('str_1', 10);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await aggregator.flush();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(TypeError), 'str_1', 10);
+    expect(report).toHaveBeenCalledTimes(1);
+    expect(aggregator.pendingUnits()).toBe(0);
+  });
+
+  it('should report what is left when closed, and refuse more usage', async () => {
+    const { report, reports } = setup();
+    const aggregator = new UsageAggregator(report);
+
+    aggregator.record('str_1', 3);
+    await aggregator.close();
+
+    expect(reports.map(([, usage]) => usage.units)).toEqual([3]);
+    expect(() => aggregator.record('str_1', 1)).toThrow('closed');
+    expect(() => new UsageAggregator(report, { flushInterval: 0 }).record('str_1', 1.5)).toThrow(RangeError);
+  });
+});
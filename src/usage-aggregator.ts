@@ -0,0 +1,189 @@
+import type { UsageReport } from './types';
+import { CircuitOpenError, NetworkError, QuicksilverError } from './errors';
+import { generateId } from './http';
+import { createLogger } from './logger';
+import type { Logger } from './logger';
+
+export interface UsageAggregatorOptions {
+  /** Milliseconds between automatic flushes. Defaults to 5000; 0 disables them. */
+  flushInterval?: number;
+  /** Flush a stream as soon as this many units are waiting. Defaults to 1000. */
+  maxUnits?: number;
+  /**
+   * Called when an automatic flush fails. Units that can be retried stay
+   * queued; `droppedUnits` counts those the API rejected, which are not resent.
+   */
+  onError?: (error: Error, streamId: string, droppedUnits: number) => void;
+  logger?: Logger;
+}
+
+const DEFAULT_FLUSH_INTERVAL = 5000;
+const DEFAULT_MAX_UNITS = 1000;
+
+// A report that has been sent at least once, retried as-is until the API accepts it
+interface SentReport {
+  units: number;
+  idempotencyKey: string;
+  timestamp: string;
+}
+
+interface StreamUsage {
+  queued: number;
+  sent: SentReport | undefined;
+  /** Units of the last failed report that won't be resent */
+  dropped: number;
+  flushing: Promise<void>;
+}
+
+/**
+ * Batches usage for per-word and per-token streams, e.g. the token counts
+ * of LLM responses, into one report per stream per flush. Flushes happen
+ * on an interval and whenever a stream reaches `maxUnits`.
+ *
+ * Each report gets an idempotency key when it is first sent. After a
+ * transient failure it is resent with the same key and units, and usage
+ * recorded in the meantime waits for the next report, so that the server
+ * never counts the same units twice.
+ */
+export class UsageAggregator {
+  private readonly streams = new Map<string, StreamUsage>();
+  private readonly maxUnits: number;
+  private readonly onError: UsageAggregatorOptions['onError'];
+  private readonly logger: Logger;
+  private readonly timer: ReturnType<typeof setInterval> | undefined;
+  private closed: boolean = false;
+
+  constructor(
+    private readonly report: (streamId: string, usage: UsageReport) => PromiseLike<unknown>,
+    options: UsageAggregatorOptions = {}
+  ) {
+    this.maxUnits = options.maxUnits ?? DEFAULT_MAX_UNITS;
+    this.onError = options.onError;
+    this.logger = options.logger ?? createLogger();
+
+    const flushInterval = options.flushInterval ?? DEFAULT_FLUSH_INTERVAL;
+    if (flushInterval > 0) {
+      this.timer = setInterval(() => {
+        for (const streamId of this.streams.keys()) {
+          this.flushInBackground(streamId);
+        }
+      }, flushInterval);
+      this.timer.unref?.(); // Pending usage is reported by close(), not by keeping the process alive
+    }
+  }
+
+  /**
+   * Queue usage for a stream
+   * @param streamId - The ID of the stream.
+   * @param units - Words or tokens used.
+   */
+  record(streamId: string, units: number) {
+    if (this.closed) {
+      throw new QuicksilverError('Cannot record usage after the aggregator was closed');
+    }
+    if (!Number.isInteger(units) || units < 0) {
+      throw new RangeError(`Usage must be a non-negative integer, received ${units}`);
+    }
+    if (units === 0) {
+      return;
+    }
+
+    const usage = this.getUsage(streamId);
+    usage.queued += units;
+    if (usage.queued >= this.maxUnits) {
+      this.flushInBackground(streamId);
+    }
+  }
+
+  /**
+   * Units recorded but not yet accepted by the API, for one stream or all of them
+   */
+  pendingUnits(streamId?: string): number {
+    const streams = streamId === undefined ? [...this.streams.values()] : [this.streams.get(streamId)];
+    return streams.reduce((total, usage) => total + (usage ? usage.queued + (usage.sent?.units ?? 0) : 0), 0);
+  }
+
+  /**
+   * Report all pending usage now. Rejects with the first failure; units that
+   * can be retried stay pending for the next flush.
+   */
+  async flush(): Promise<void> {
+    const results = await Promise.allSettled([...this.streams.keys()].map(streamId => this.flushStream(streamId)));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Stop flushing automatically and report what is left
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private getUsage(streamId: string): StreamUsage {
+    let usage = this.streams.get(streamId);
+    if (!usage) {
+      usage = { queued: 0, sent: undefined, dropped: 0, flushing: Promise.resolve() };
+      this.streams.set(streamId, usage);
+    }
+    return usage;
+  }
+
+  private flushStream(streamId: string): Promise<void> {
+    const usage = this.getUsage(streamId);
+    // One request per stream at a time, so that reports can't overtake each other
+    usage.flushing = usage.flushing.catch(() => undefined).then(() => this.send(streamId, usage));
+    return usage.flushing;
+  }
+
+  private flushInBackground(streamId: string) {
+    const usage = this.getUsage(streamId);
+    this.flushStream(streamId).catch(error => {
+      const droppedUnits = usage.dropped;
+      this.logger.warn({ streamId, pendingUnits: this.pendingUnits(streamId), droppedUnits, error }, 'Failed to report stream usage');
+      this.onError?.(error instanceof Error ? error : new Error(String(error)), streamId, droppedUnits);
+    });
+  }
+
+  private async send(streamId: string, usage: StreamUsage): Promise<void> {
+    usage.dropped = 0;
+    while (usage.sent || usage.queued > 0) {
+      if (!usage.sent) {
+        usage.sent = { units: usage.queued, idempotencyKey: generateId(), timestamp: new Date().toISOString() };
+        usage.queued = 0;
+      }
+
+      const report = usage.sent;
+      try {
+        await this.report(streamId, report);
+      } catch (error) {
+        if (!isTransient(error)) {
+          usage.sent = undefined; // Resending it would fail the same way
+          usage.dropped = report.units;
+        }
+        throw error;
+      }
+      usage.sent = undefined;
+    }
+
+    // Forget streams with nothing left to report, so that finished ones don't pile up
+    if (this.streams.get(streamId) === usage) {
+      this.streams.delete(streamId);
+    }
+  }
+}
+
+/**
+ * Whether resending the same report might succeed
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof CircuitOpenError) {
+    return true;
+  }
+  const status = error instanceof QuicksilverError ? error.statusCode : undefined;
+  return status !== undefined && (status === 408 || status === 429 || status >= 500);
+}
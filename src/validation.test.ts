@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { array, formatIssues, literal, nullable, number, object, optional, string, union, validate } from "./validation";
+import { accountSchema, paginatedResponseSchema } from "./schemas";
+
+const account = {
+  id: "acc_1",
+  name: "Agent",
+  account_type: "AgentMain",
+  parent_id: null,
+  meta: {},
+  limits: { daily: 100 },
+  verification: { status: "verified", verified_at: "2025-01-01T00:00:00Z" },
+  created_at: "2025-01-01T00:00:00Z",
+  updated_at: "2025-01-01T00:00:00Z",
+  children: [],
+};
+
+describe("validate", () => {
+  it("should accept values that match the schema", () => {
+    expect(validate(accountSchema, account)).toEqual([]);
+    expect(validate(paginatedResponseSchema(accountSchema), {
+      data: [account],
+      pagination: { page: 1, limit: 10, total: 1, has_more: false },
+    })).toEqual([]);
+  });
+
+  it("should report mismatches and unexpected properties by path", () => {
+    const issues = validate(paginatedResponseSchema(accountSchema), {
+      data: [{ ...account, name: undefined, balance: 100, verification: { status: "approved" } }],
+      pagination: { page: 1, limit: 10, total: "1", has_more: false },
+    });
+
+    expect(issues).toEqual([
+      { path: "$.data[0].name", expected: "string", received: "undefined" },
+      {
+        path: "$.data[0].verification.status",
+        expected: '"unverified" | "pending" | "verified" | "rejected"',
+        received: '"approved"',
+      },
+      { path: "$.data[0].balance", received: "100" },
+      { path: "$.pagination.total", expected: "number", received: '"1"' },
+    ]);
+  });
+
+  it("should support optional, nullable and union schemas", () => {
+    const schema = object({
+      to: optional(nullable(string())),
+      amount: union(number(), array(number())),
+      kind: literal("a", "b"),
+    });
+
+    expect(validate(schema, { amount: [1, 2], kind: "a" })).toEqual([]);
+    expect(validate(schema, { to: null, amount: 1, kind: "b" })).toEqual([]);
+    expect(validate(schema, { to: 1, amount: "1", kind: "b" })).toHaveLength(2);
+  });
+});
+
+describe("formatIssues", () => {
+  it("should render a diff with one line per path", () => {
+    expect(formatIssues([
+      { path: "$.name", expected: "string", received: "undefined" },
+      { path: "$.balance", received: "100" },
+    ])).toBe("- $.name: expected string, received undefined\n+ $.balance: unexpected property (100)");
+  });
+});
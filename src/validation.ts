@@ -0,0 +1,200 @@
+/**
+ * A mismatch between a response and its schema
+ */
+export interface ValidationIssue {
+  /** Location of the mismatch, e.g. `data[0].verification.status` */
+  path: string;
+  /** What the schema expects, or `undefined` for properties the schema doesn't know */
+  expected?: string;
+  /** Description of the value that was received */
+  received: string;
+}
+
+/**
+ * A runtime description of a response type
+ */
+export interface Schema {
+  /** Human-readable description of the expected type */
+  readonly description: string;
+  validate(value: unknown, path: string, issues: ValidationIssue[]): void;
+}
+
+/**
+ * Validate a value against a schema
+ * @returns The mismatches found, empty when the value conforms.
+ */
+export function validate(schema: Schema, value: unknown, path: string = '$'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  schema.validate(value, path, issues);
+  return issues;
+}
+
+/**
+ * Render issues as a diff, one line per path
+ * @example
+ * - $.name: expected string, received undefined
+ * + $.balance: unexpected property (number)
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(issue => issue.expected === undefined
+      ? `+ ${issue.path}: unexpected property (${issue.received})`
+      : `- ${issue.path}: expected ${issue.expected}, received ${issue.received}`)
+    .join('\n');
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return typeof value;
+}
+
+function primitive(type: 'string' | 'number' | 'boolean'): Schema {
+  return {
+    description: type,
+    validate(value, path, issues) {
+      if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+        issues.push({ path, expected: type, received: describeValue(value) });
+      }
+    },
+  };
+}
+
+export const string = (): Schema => primitive('string');
+export const number = (): Schema => primitive('number');
+export const boolean = (): Schema => primitive('boolean');
+
+export function unknown(): Schema {
+  return { description: 'any', validate: () => undefined };
+}
+
+export function literal(...values: Array<string | number | boolean>): Schema {
+  return {
+    description: values.map(value => JSON.stringify(value)).join(' | '),
+    validate(value, path, issues) {
+      if (!values.includes(value as string | number | boolean)) {
+        issues.push({ path, expected: this.description, received: describeValue(value) });
+      }
+    },
+  };
+}
+
+export function nullable(schema: Schema): Schema {
+  return {
+    description: `${schema.description} | null`,
+    validate(value, path, issues) {
+      if (value !== null) {
+        schema.validate(value, path, issues);
+      }
+    },
+  };
+}
+
+export function array(items: Schema): Schema {
+  return {
+    description: `${items.description}[]`,
+    validate(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: this.description, received: describeValue(value) });
+        return;
+      }
+      value.forEach((item, index) => items.validate(item, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+export function record(values: Schema = unknown()): Schema {
+  return {
+    description: 'object',
+    validate(value, path, issues) {
+      if (!isPlainObject(value)) {
+        issues.push({ path, expected: 'object', received: describeValue(value) });
+        return;
+      }
+      for (const [key, field] of Object.entries(value)) {
+        values.validate(field, `${path}.${key}`, issues);
+      }
+    },
+  };
+}
+
+/**
+ * The value must match at least one of the schemas. Issues are reported
+ * against the closest match.
+ */
+export function union(...schemas: Schema[]): Schema {
+  return {
+    description: schemas.map(schema => schema.description).join(' | '),
+    validate(value, path, issues) {
+      let closest: ValidationIssue[] | undefined;
+      for (const schema of schemas) {
+        const candidate = validate(schema, value, path);
+        if (candidate.length === 0) {
+          return;
+        }
+        if (!closest || candidate.length < closest.length) {
+          closest = candidate;
+        }
+      }
+      issues.push(...(closest ?? []));
+    },
+  };
+}
+
+export interface ObjectShape {
+  [key: string]: Schema | { optional: Schema };
+}
+
+/**
+ * Marks a property that may be omitted
+ */
+export function optional(schema: Schema): { optional: Schema } {
+  return { optional: schema };
+}
+
+/**
+ * An object with known properties. Properties missing from the shape are
+ * reported as unexpected.
+ */
+export function object(shape: ObjectShape): Schema {
+  return {
+    description: 'object',
+    validate(value, path, issues) {
+      if (!isPlainObject(value)) {
+        issues.push({ path, expected: 'object', received: describeValue(value) });
+        return;
+      }
+
+      for (const [key, property] of Object.entries(shape)) {
+        const field = value[key];
+        if ('optional' in property) {
+          if (field !== undefined) {
+            property.optional.validate(field, `${path}.${key}`, issues);
+          }
+        } else {
+          property.validate(field, `${path}.${key}`, issues);
+        }
+      }
+
+      for (const key of Object.keys(value)) {
+        if (!(key in shape)) {
+          issues.push({ path: `${path}.${key}`, received: describeValue(value[key]) });
+        }
+      }
+    },
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}